@@ -0,0 +1,130 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { BugBoardAgent, ReportQueuedError } from '../index';
+import { Transport } from '../transport';
+import { recordingTransport, testPayload } from './helpers';
+
+/**
+ * Let the auto-report started by a detection settle
+ */
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * Resolves when the agent next clears its detection state
+ */
+function nextReset(agent: BugBoardAgent): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Detection was not reset')), 2000);
+    agent.once('reset', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+/**
+ * A transport for an agent without a network connection, or one whose
+ * reports the server turns away with `error`
+ */
+function failingTransport(error: Error = new Error('getaddrinfo ENOTFOUND bugboard.local')): Transport & { sends: number } {
+  const transport = {
+    name: 'failing',
+    sends: 0,
+    async send(): Promise<never> {
+      transport.sends += 1;
+      throw error;
+    }
+  };
+  return transport;
+}
+
+describe('auto-reports', () => {
+  it('starts detection afresh after a report is vetoed', async () => {
+    const transport = recordingTransport();
+    const agent = new BugBoardAgent({ agentName: 'autoreport-test', transport, outbox: false });
+    const vetoes: string[] = [];
+    agent.on('beforeReport', ({ veto }) => {
+      vetoes.push('vetoed');
+      veto('local run');
+    });
+
+    for (let failure = 0; failure < 3; failure++) {
+      agent.trackBuildFailure();
+    }
+    await settle();
+    expect(vetoes).toHaveLength(1);
+
+    // The next failure starts a new count instead of being reported again
+    agent.trackBuildFailure();
+    agent.trackBuildFailure();
+    await settle();
+    expect(vetoes).toHaveLength(1);
+
+    agent.trackBuildFailure();
+    await settle();
+    expect(vetoes).toHaveLength(2);
+    expect(transport.reports).toHaveLength(0);
+    agent.close();
+  });
+
+  describe('while offline', () => {
+    let directory: string;
+    let agent: BugBoardAgent;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'bugboard-offline-'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(async () => {
+      agent.close();
+      jest.restoreAllMocks();
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    const createAgent = (transport: Transport) => new BugBoardAgent({
+      agentName: 'offline-test',
+      transport,
+      rateLimit: false,
+      outbox: { directory, baseDelayMs: 60 * 1000, flushOnStart: false, flushOnExit: false }
+    });
+
+    it('queues a crash loop once and starts detection afresh', async () => {
+      const transport = failingTransport();
+      agent = createAgent(transport);
+
+      for (let round = 0; round < 5; round++) {
+        const reset = nextReset(agent);
+        for (let failure = 0; failure < 3; failure++) {
+          agent.trackBuildFailure();
+        }
+        await reset;
+      }
+
+      expect(transport.sends).toBe(1);
+      expect(await agent.pendingCount()).toBe(1);
+    });
+
+    it('tells the caller the report was queued', async () => {
+      agent = createAgent(failingTransport());
+
+      await expect(agent.reportBug(testPayload())).rejects.toBeInstanceOf(ReportQueuedError);
+      await expect(agent.reportBug(testPayload())).rejects.toBeInstanceOf(ReportQueuedError);
+      expect(await agent.pendingCount()).toBe(1);
+    });
+
+    it('sends a report again after the server rejected it', async () => {
+      const rejected = Object.assign(new Error('Request failed with status code 400'), {
+        isAxiosError: true,
+        response: { status: 400 }
+      });
+      const transport = failingTransport(rejected);
+      agent = createAgent(transport);
+
+      await expect(agent.reportBug(testPayload())).rejects.toBe(rejected);
+      await expect(agent.reportBug(testPayload())).rejects.toBe(rejected);
+      expect(transport.sends).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { main, parseArgs } from '../cli';
+import { MockBugBoard, createMockBugBoard } from '../testing';
+import { FileTransport } from '../transport';
+import { testPayload } from './helpers';
+
+// The CLI keeps undelivered reports in ~/.bugboard/outbox, so give it a
+// home of its own
+jest.mock('os', () => {
+  const actual = jest.requireActual('os');
+  const home = actual.tmpdir() + `/bugboard-cli-home-${process.pid}`;
+  return { ...actual, homedir: () => home };
+});
+
+/**
+ * A command line that runs `script` with node
+ */
+function nodeCommand(script: string): string[] {
+  return [process.execPath, '-e', script];
+}
+
+describe('parseArgs', () => {
+  it('splits the command, positionals, options and the command to watch', () => {
+    expect(parseArgs(['watch', '--repeat', '3', '--tail=50', '--dry-run', 'extra', '--', 'npm', 'test', '--watch'])).toEqual({
+      command: 'watch',
+      positionals: ['extra'],
+      options: { repeat: '3', tail: '50', 'dry-run': 'true' },
+      rest: ['npm', 'test', '--watch']
+    });
+  });
+
+  it('keeps everything after the first = of an inline value', () => {
+    expect(parseArgs(['report', '--error=a=b', '-h']).options).toEqual({ error: 'a=b', help: 'true' });
+  });
+
+  it('rejects an option without a value', () => {
+    expect(() => parseArgs(['report', '--input'])).toThrow('Missing value for --input');
+  });
+});
+
+describe('bugboard CLI', () => {
+  let bugboard: MockBugBoard;
+  let directory: string;
+  let logged: string[];
+  let errors: string[];
+
+  // Options go before the arguments, which can end with `-- <command>`
+  const run = (command: string, ...argv: string[]) =>
+    main([command, '--api-url', bugboard.apiUrl, '--agent', 'cli-test', ...argv]);
+
+  beforeEach(async () => {
+    bugboard = await createMockBugBoard();
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'bugboard-cli-'));
+    logged = [];
+    errors = [];
+    jest.spyOn(console, 'log').mockImplementation((...args) => logged.push(args.join(' ')));
+    jest.spyOn(console, 'error').mockImplementation((...args) => errors.push(args.join(' ')));
+    jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await bugboard.close();
+    await fs.rm(directory, { recursive: true, force: true });
+    // A queued report would be flushed to the next test's server
+    await fs.rm(os.homedir(), { recursive: true, force: true });
+  });
+
+  it('prints usage without a command', async () => {
+    await expect(main([])).resolves.toBe(1);
+    await expect(main(['--help'])).resolves.toBe(0);
+    expect(logged[0]).toMatch(/^Usage: bugboard <command>/);
+  });
+
+  it('rejects unknown commands', async () => {
+    await expect(main(['deploy'])).resolves.toBe(1);
+    expect(errors[0]).toMatch(/^Unknown command: deploy/);
+  });
+
+  describe('report', () => {
+    it('reports the given log files and prints the bug URL', async () => {
+      const logFile = path.join(directory, 'agent.log');
+      await fs.writeFile(logFile, 'Calling search tool\nTimeout after 30s\n');
+
+      await expect(run('report', logFile, '--input', 'Find the docs', '--error', 'Tool timed out')).resolves.toBe(0);
+
+      const [bug] = bugboard.bugs;
+      bugboard.expectReported({ agentName: 'cli-test', input: 'Find the docs', error: 'Tool timed out' });
+      expect(bugboard.reports[0].logs).toBe('--- agent.log ---\nCalling search tool\nTimeout after 30s\n');
+      expect(logged).toEqual([expect.stringContaining(bug.id)]);
+    });
+
+    it('fails when a log file cannot be read', async () => {
+      await expect(run('report', path.join(directory, 'missing.log'))).resolves.toBe(1);
+      expect(errors).toEqual([expect.stringMatching(/^Failed to read logs: .*ENOENT/)]);
+      bugboard.expectNoReports();
+    });
+
+    it('says when a report was queued for retry', async () => {
+      const logFile = path.join(directory, 'agent.log');
+      await fs.writeFile(logFile, 'Timeout after 30s\n');
+      bugboard.failNext(1, 503);
+
+      await expect(run('report', logFile)).resolves.toBe(1);
+      expect(errors).toContainEqual('The report could not be delivered and was queued for retry: Request failed with status code 503');
+    });
+  });
+
+  describe('status', () => {
+    it('prints a bug and its fix', async () => {
+      const logFile = path.join(directory, 'agent.log');
+      await fs.writeFile(logFile, 'Timeout after 30s\n');
+      await run('report', logFile, '--error', 'Tool timed out');
+      const [bug] = bugboard.bugs;
+      bugboard.resolve(bug.id, { fixUrl: 'https://github.com/acme/agent/pull/7' });
+      logged = [];
+
+      await expect(run('status', bug.id)).resolves.toBe(0);
+      expect(logged).toEqual([
+        'Error: Tool timed out',
+        'Status:   resolved',
+        'Agent:    cli-test',
+        'Bounty:   $5',
+        `Reported: ${bug.created_at}`,
+        'Fix:      https://github.com/acme/agent/pull/7',
+        expect.stringMatching(new RegExp(`^URL: +\\S+${bug.id}$`))
+      ]);
+    });
+
+    it('fails for an unknown bug', async () => {
+      await expect(run('status', 'missing')).resolves.toBe(1);
+      expect(errors[0]).toMatch(/^Failed to fetch bug missing:/);
+    });
+  });
+
+  describe('watch', () => {
+    it('reports a command that repeats the same output', async () => {
+      const loop = nodeCommand('for (let i = 0; i < 10; i++) console.log("Retrying request...")');
+
+      await expect(run('watch', '--repeat', '3', '--', ...loop)).resolves.toBe(0);
+
+      bugboard.expectReportCount(1);
+      const [report] = bugboard.reports;
+      expect(report.error).toMatch(/repeated the same output 3 times: Retrying request\.\.\.$/);
+      expect(report.input).toMatch(/^bugboard watch -- /);
+      // The output up to the point the loop was noticed
+      expect(report.logs).toBe('Retrying request...\nRetrying request...\nRetrying request...');
+      expect(errors).toEqual([expect.stringMatching(/^\[bugboard\] Reported: /)]);
+    });
+
+    it('reports a command that exits with a non-zero code and passes the code on', async () => {
+      const failing = nodeCommand('console.log("Compiling..."); console.error("Type error in app.ts"); process.exit(2)');
+
+      await expect(run('watch', '--', ...failing)).resolves.toBe(2);
+
+      bugboard.expectReportCount(1);
+      expect(bugboard.reports[0].error).toMatch(/exited with code 2$/);
+      expect(bugboard.reports[0].logs).toContain('Type error in app.ts');
+    });
+
+    it('keeps only the last --tail lines', async () => {
+      const failing = nodeCommand('for (let i = 1; i <= 20; i++) console.log(`line ${i}`); process.exit(1)');
+
+      // Numbered lines look alike to the loop detection, so it is turned down
+      await expect(run('watch', '--tail', '5', '--repeat', '50', '--', ...failing)).resolves.toBe(1);
+      bugboard.expectReportCount(1);
+      expect(bugboard.reports[0].logs).toBe('line 16\nline 17\nline 18\nline 19\nline 20');
+    });
+
+    it('reports a command that fails to start', async () => {
+      await expect(run('watch', '--', path.join(directory, 'missing-command'))).resolves.toBe(127);
+      expect(bugboard.reports[0].error).toMatch(/failed to start: spawn .* ENOENT$/);
+    });
+
+    it('does not report a command that succeeds', async () => {
+      await expect(run('watch', '--', ...nodeCommand('console.log("done")'))).resolves.toBe(0);
+      bugboard.expectNoReports();
+    });
+
+    it('rejects an invalid --repeat', async () => {
+      await expect(run('watch', '--repeat', '0', '--', 'true')).resolves.toBe(1);
+      expect(errors).toEqual(['--repeat must be a positive whole number, got "0"']);
+    });
+  });
+
+  describe('upload', () => {
+    it('sends the reports a FileTransport recorded', async () => {
+      const file = path.join(directory, 'reports.jsonl');
+      const transport = new FileTransport(file);
+      await transport.send(testPayload({ agentName: 'cli-test', error: 'first' }));
+      await transport.send(testPayload({ agentName: 'cli-test', error: 'second', fingerprint: 'other' }));
+
+      await expect(run('upload', file)).resolves.toBe(0);
+
+      expect(bugboard.reports.map((report) => report.error)).toEqual(['first', 'second']);
+      expect(logged).toHaveLength(2);
+      expect(errors).toEqual(['Uploaded 2 of 2 reports']);
+    });
+
+    it('fails when a report is rejected', async () => {
+      const file = path.join(directory, 'reports.jsonl');
+      await new FileTransport(file).send(testPayload({ agentName: 'cli-test' }));
+      bugboard.failNext(1, 400);
+
+      await expect(run('upload', file)).resolves.toBe(1);
+      expect(errors).toEqual([
+        expect.stringMatching(/^Failed to upload report test-fingerprint: .*400/),
+        'Uploaded 0 of 1 reports'
+      ]);
+    });
+
+    it('fails for a file that does not exist', async () => {
+      await expect(run('upload', path.join(directory, 'missing.jsonl'))).resolves.toBe(1);
+      expect(errors[0]).toMatch(/^Failed to read reports from /);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import fs from 'fs';
+import path from 'path';
+import { FingerprintInput, computeFingerprint } from '../fingerprint';
+
+const vectors: Array<FingerprintInput & { fingerprint: string }> = JSON.parse(
+  fs.readFileSync(path.join(__dirname, 'fixtures', 'fingerprints.json'), 'utf-8')
+);
+
+describe('computeFingerprint', () => {
+  // The backend checks the same vectors, so both compute the same groups
+  it.each(vectors)('matches the shared vector for $agentName', ({ fingerprint, ...input }) => {
+    expect(computeFingerprint(input)).toBe(fingerprint);
+  });
+
+  it('ignores volatile details and stack frame positions', () => {
+    const first = computeFingerprint({
+      agentName: 'coder',
+      error: 'Timed out after 1500ms at 12:00:01\n    at fetch (/home/ci/app/dist/http.js:10:2)'
+    });
+    const second = computeFingerprint({
+      agentName: 'coder',
+      error: 'Timed out after 3000ms at 18:30:45\n    at fetch (/srv/app/dist/http.js:99:7)'
+    });
+
+    expect(first).toBe(second);
+  });
+
+  it('tells different agents and errors apart', () => {
+    const base = computeFingerprint({ agentName: 'coder', error: 'ENOENT' });
+
+    expect(computeFingerprint({ agentName: 'writer', error: 'ENOENT' })).not.toBe(base);
+    expect(computeFingerprint({ agentName: 'coder', error: 'EACCES' })).not.toBe(base);
+  });
+});
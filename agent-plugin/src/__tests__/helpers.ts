@@ -0,0 +1,31 @@
+import { Transport } from '../transport';
+import { BugReportPayload } from '../types';
+
+/**
+ * A transport that keeps every report it is given
+ */
+export function recordingTransport(): Transport & { reports: BugReportPayload[] } {
+  const reports: BugReportPayload[] = [];
+  return {
+    name: 'recording',
+    reports,
+    async send(payload) {
+      reports.push(payload);
+      return { id: `bug-${reports.length}`, url: `test:bug-${reports.length}` };
+    }
+  };
+}
+
+export function testPayload(overrides: Partial<BugReportPayload> = {}): BugReportPayload {
+  return {
+    agentName: 'test-agent',
+    input: 'Summarize the file',
+    logs: 'Reading file...',
+    error: 'ENOENT: no such file',
+    fingerprint: 'test-fingerprint',
+    runId: 'run-1',
+    spanId: 'span-1',
+    timestamp: new Date(0).toISOString(),
+    ...overrides
+  };
+}
@@ -0,0 +1,51 @@
+import { BugBoardAgent } from '../index';
+import { BugBoardCallbackHandler } from '../langchain';
+import { recordingTransport } from './helpers';
+
+function createHandler() {
+  const agent = new BugBoardAgent({
+    agentName: 'langchain-test',
+    transport: recordingTransport(),
+    outbox: false
+  });
+  return { agent, handler: new BugBoardCallbackHandler(agent) };
+}
+
+describe('BugBoardCallbackHandler', () => {
+  it('records each model call as a single trace step', () => {
+    const { agent, handler } = createHandler();
+
+    handler.handleLLMStart({ name: 'gpt' }, ['Hello'], 'run-1');
+    handler.handleLLMEnd({
+      generations: [[{ text: 'Hi there' }]],
+      llmOutput: { tokenUsage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 } }
+    }, 'run-1');
+
+    const { steps } = agent.trace.toJSON();
+    expect(steps).toHaveLength(1);
+    expect(steps[0]).toMatchObject({
+      type: 'model',
+      response: { content: 'Hi there', usage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 } }
+    });
+    agent.close();
+  });
+
+  it('ignores token usage it cannot read', () => {
+    const { agent, handler } = createHandler();
+
+    handler.handleLLMStart({ name: 'gpt' }, ['Hello'], 'run-1');
+    handler.handleLLMEnd({ generations: [[{ text: 'Hi' }]], llmOutput: { tokenUsage: 'n/a' } }, 'run-1');
+
+    expect(agent.trace.toJSON().steps[0].response?.usage).toBeUndefined();
+    agent.close();
+  });
+
+  it('still records output for a model call it did not see start', () => {
+    const { agent, handler } = createHandler();
+
+    handler.handleLLMEnd({ generations: [[{ text: 'Orphan' }]] }, 'unknown-run');
+
+    expect(agent.trace.toJSON().steps).toMatchObject([{ type: 'output', output: 'Orphan' }]);
+    agent.close();
+  });
+});
@@ -0,0 +1,137 @@
+import axios from 'axios';
+import { BugBoardAgent } from '../index';
+import { MockBugBoard, createMockBugBoard } from '../testing';
+
+describe('createMockBugBoard', () => {
+  let bugboard: MockBugBoard;
+  let agent: BugBoardAgent;
+
+  beforeEach(async () => {
+    bugboard = await createMockBugBoard({ apiKeys: { 'key-1': 'mock-test' } });
+    agent = new BugBoardAgent({
+      agentName: 'mock-test',
+      apiUrl: bugboard.apiUrl,
+      apiKey: 'key-1',
+      outbox: false,
+      dedupe: false,
+      logs: { chunkSizeBytes: 1024 }
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    agent.close();
+    await bugboard.close();
+  });
+
+  it('records reports and creates a bug for each', async () => {
+    const { id } = await agent.reportBug({ input: 'Summarize the file', logs: 'Reading file...', error: 'ENOENT' });
+
+    bugboard.expectReportCount(1);
+    bugboard.expectReported({ input: 'Summarize the file', error: /ENOENT/ });
+    expect(bugboard.bugs).toMatchObject([{ id, agent_name: 'mock-test', status: 'open', occurrence_count: 1 }]);
+    expect(() => bugboard.expectReported({ error: /EACCES/ })).toThrow(/Expected a report matching/);
+  });
+
+  it('groups repeats of an open bug by fingerprint', async () => {
+    const first = await agent.reportBug({ input: 'task', logs: 'logs', error: 'boom' });
+    const second = await agent.reportBug({ input: 'task', logs: 'logs', error: 'boom' });
+
+    expect(second.id).toBe(first.id);
+    expect(bugboard.bugs).toHaveLength(1);
+    expect(bugboard.bugs[0].occurrence_count).toBe(2);
+
+    const { data } = await axios.get(`${bugboard.apiUrl}/bugs/${first.id}/occurrences`);
+    expect(data).toHaveLength(2);
+  });
+
+  it('reassembles logs uploaded in chunks', async () => {
+    const logs = 'line of output\n'.repeat(500);
+    await agent.reportBug({ input: 'task', logs, error: 'boom' });
+
+    expect(bugboard.reports[0].logs).toBe(logs);
+    expect(bugboard.reports[0].logsUploadId).toBeDefined();
+  });
+
+  it('stores uploaded attachments', async () => {
+    const { id } = await agent.reportBug({
+      input: 'task',
+      logs: 'logs',
+      error: 'boom',
+      attachments: [{ content: 'test output', filename: 'output.txt' }]
+    });
+
+    expect(bugboard.attachments).toHaveLength(1);
+    expect(bugboard.attachments[0].content?.toString('utf-8')).toBe('test output');
+
+    const { data } = await axios.get(`${bugboard.apiUrl}/bugs/${id}/attachments`);
+    expect(data).toEqual([{
+      id: bugboard.attachments[0].id,
+      filename: 'output.txt',
+      filetype: 'text/plain',
+      filesize: 11,
+      created_at: expect.any(String),
+      download_url: `/api/attachments/${bugboard.attachments[0].id}`
+    }]);
+  });
+
+  it('answers with simulated failures', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    bugboard.failNext(1, 503);
+
+    await expect(agent.reportBug({ input: 'task', logs: 'logs', error: 'boom' })).rejects.toMatchObject({
+      response: { status: 503 }
+    });
+    await agent.reportBug({ input: 'task', logs: 'logs', error: 'boom' });
+    bugboard.expectReportCount(1);
+  });
+
+  it('rejects unknown API keys and keys issued for another agent', async () => {
+    const post = (apiKey: string, agentName: string) =>
+      axios.post(`${bugboard.apiUrl}/bugs`, { agentName, input: 'task', logs: 'logs' }, {
+        headers: { Authorization: `Bearer ${apiKey}` },
+        validateStatus: () => true
+      });
+
+    expect((await post('key-2', 'mock-test')).status).toBe(401);
+    expect((await post('key-1', 'other-agent')).status).toBe(403);
+    bugboard.expectNoReports();
+  });
+
+  it('rejects bodies that are not JSON objects', async () => {
+    const response = await axios.post(`${bugboard.apiUrl}/bugs`, '[1, 2]', {
+      headers: { 'Content-Type': 'application/json' },
+      validateStatus: () => true
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.data).toEqual({ error: 'Expected a JSON object' });
+  });
+
+  it('accepts fixes and resolves bugs', async () => {
+    const { id } = await agent.reportBug({ input: 'task', logs: 'logs', error: 'boom' });
+    await axios.post(`${bugboard.apiUrl}/bugs/${id}/fixes`, { prUrl: 'https://github.com/org/repo/pull/1', explanation: 'Fixed it' });
+
+    bugboard.resolve(id);
+    const resolution = await agent.waitForResolution(id, { initialDelayMs: 10, timeoutMs: 2000 });
+
+    expect(resolution).toMatchObject({ fixUrl: 'https://github.com/org/repo/pull/1', fixExplanation: 'Fixed it' });
+    expect(bugboard.fixes[0].status).toBe('accepted');
+  });
+
+  it('waits for reports to arrive', async () => {
+    const waiting = bugboard.waitForReports(1, 2000);
+    agent.reportBug({ input: 'task', logs: 'logs', error: 'boom' });
+
+    await expect(waiting).resolves.toHaveLength(1);
+    await expect(bugboard.waitForReports(2, 50)).rejects.toThrow('Expected 2 report(s) within 50ms, received 1');
+  });
+
+  it('forgets everything on reset', async () => {
+    await agent.reportBug({ input: 'task', logs: 'logs', error: 'boom' });
+    bugboard.reset();
+
+    bugboard.expectNoReports();
+    expect(bugboard.bugs).toHaveLength(0);
+  });
+});
@@ -0,0 +1,187 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Outbox, computeBackoff, isRetryableError } from '../outbox';
+import { BugReportPayload, BugReportResult } from '../types';
+import { testPayload } from './helpers';
+
+const OK: BugReportResult = { id: 'bug-1', url: 'test:bug-1' };
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    isAxiosError: true,
+    response: { status }
+  });
+}
+
+describe('Outbox', () => {
+  let directory: string;
+  const outboxes: Outbox[] = [];
+
+  // Retries are long enough away that only explicit flushes send
+  const createOutbox = (send: (payload: BugReportPayload) => Promise<BugReportResult>, maxAttempts = 8) => {
+    const outbox = new Outbox(send, { directory, maxAttempts, baseDelayMs: 60 * 1000, flushOnStart: false, flushOnExit: false });
+    outboxes.push(outbox);
+    return outbox;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'bugboard-outbox-'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    outboxes.splice(0).forEach((outbox) => outbox.close());
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('removes a report once it is delivered', async () => {
+    const send = jest.fn().mockResolvedValue(OK);
+    const outbox = createOutbox(send);
+
+    await expect(outbox.deliver(testPayload())).resolves.toEqual(OK);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(await outbox.pendingCount()).toBe(0);
+  });
+
+  it('keeps a report that failed to send and delivers it on flush', async () => {
+    const send = jest.fn().mockRejectedValueOnce(new Error('socket hang up')).mockResolvedValue(OK);
+    const outbox = createOutbox(send);
+
+    await expect(outbox.deliver(testPayload())).rejects.toThrow('socket hang up');
+    expect(await outbox.pendingCount()).toBe(1);
+
+    await expect(outbox.flush()).resolves.toEqual({ sent: 1, failed: 0, dropped: 0 });
+    expect(await outbox.pendingCount()).toBe(0);
+  });
+
+  it('moves reports the API rejected to the dead-letter directory', async () => {
+    const outbox = createOutbox(jest.fn().mockRejectedValue(httpError(400)));
+
+    await expect(outbox.deliver(testPayload())).rejects.toThrow();
+
+    expect(await outbox.pendingCount()).toBe(0);
+    expect(await fs.readdir(path.join(directory, 'failed'))).toHaveLength(1);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const outbox = createOutbox(jest.fn().mockRejectedValue(httpError(503)), 2);
+
+    await expect(outbox.deliver(testPayload())).rejects.toThrow();
+    await expect(outbox.flush()).resolves.toEqual({ sent: 0, failed: 0, dropped: 1 });
+
+    const [file] = await fs.readdir(path.join(directory, 'failed'));
+    const entry = JSON.parse(await fs.readFile(path.join(directory, 'failed', file), 'utf-8'));
+    expect(entry.attempts).toBe(2);
+  });
+
+  it('does not send a report again while it is being delivered', async () => {
+    let release: (result: BugReportResult) => void = () => undefined;
+    const send = jest.fn(() => new Promise<BugReportResult>((resolve) => { release = resolve; }));
+    const outbox = createOutbox(send);
+
+    const delivery = outbox.deliver(testPayload());
+    const flushes = [outbox.flush(), outbox.flush()];
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    flushes.push(outbox.flush());
+
+    const results = await Promise.all(flushes);
+    release(OK);
+    await delivery;
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(results.every((result) => result.sent === 0)).toBe(true);
+  });
+
+  it('keeps undelivered reports for the next outbox using the directory', async () => {
+    await createOutbox(jest.fn()).enqueue(testPayload({ error: 'queued' }));
+
+    const send = jest.fn().mockResolvedValue(OK);
+    await createOutbox(send).flush();
+
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ error: 'queued' }));
+  });
+
+  it('sends each report once when outboxes share the directory', async () => {
+    const seed = createOutbox(jest.fn());
+    for (let i = 0; i < 5; i++) {
+      await seed.enqueue(testPayload({ error: `queued ${i}` }));
+    }
+
+    // Each send yields, so both outboxes are flushing at the same time
+    const send = jest.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return OK;
+    });
+    const results = await Promise.all([createOutbox(send).flush(), createOutbox(send).flush()]);
+
+    expect(send).toHaveBeenCalledTimes(5);
+    expect(results[0].sent + results[1].sent).toBe(5);
+    expect(await seed.pendingCount()).toBe(0);
+  });
+
+  it('leaves reports another outbox is sending to it', async () => {
+    let release: (result: BugReportResult) => void = () => undefined;
+    const send = jest.fn(() => new Promise<BugReportResult>((resolve) => { release = resolve; }));
+    const delivery = createOutbox(send).deliver(testPayload());
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const other = jest.fn().mockResolvedValue(OK);
+    await expect(createOutbox(other).flush()).resolves.toEqual({ sent: 0, failed: 0, dropped: 0 });
+    release(OK);
+    await delivery;
+
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it('sends reports claimed by an outbox that died while sending them', async () => {
+    const entry = await createOutbox(jest.fn()).enqueue(testPayload({ error: 'abandoned' }));
+    const claimedAt = Date.now() - 60 * 60 * 1000;
+    await fs.rename(path.join(directory, `${entry.id}.json`), path.join(directory, `${entry.id}.json.${claimedAt}.inflight`));
+
+    const send = jest.fn().mockResolvedValue(OK);
+    await expect(createOutbox(send).flush()).resolves.toEqual({ sent: 1, failed: 0, dropped: 0 });
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ error: 'abandoned' }));
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it('detaches its exit hook when closed', () => {
+    const before = process.listenerCount('beforeExit');
+    const outbox = new Outbox(jest.fn(), { directory, flushOnStart: false });
+    expect(process.listenerCount('beforeExit')).toBe(before + 1);
+
+    outbox.close();
+    expect(process.listenerCount('beforeExit')).toBe(before);
+  });
+});
+
+describe('computeBackoff', () => {
+  it('doubles the delay per attempt within half to full of it', () => {
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      const delay = computeBackoff(attempt, 100, 10000);
+      const full = 100 * Math.pow(2, attempt - 1);
+      expect(delay).toBeGreaterThanOrEqual(full / 2);
+      expect(delay).toBeLessThanOrEqual(full);
+    }
+  });
+
+  it('never exceeds the maximum delay', () => {
+    expect(computeBackoff(30, 100, 1000)).toBeLessThanOrEqual(1000);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries network errors, server errors, timeouts and rate limiting', () => {
+    expect(isRetryableError(new Error('ECONNREFUSED'))).toBe(true);
+    expect(isRetryableError(httpError(502))).toBe(true);
+    expect(isRetryableError(httpError(408))).toBe(true);
+    expect(isRetryableError(httpError(429))).toBe(true);
+  });
+
+  it('does not retry other client errors', () => {
+    expect(isRetryableError(httpError(400))).toBe(false);
+    expect(isRetryableError(httpError(413))).toBe(false);
+  });
+});
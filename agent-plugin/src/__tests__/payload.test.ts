@@ -0,0 +1,166 @@
+import { AgentTrace, BugBoardAgent, FanoutTransport, HttpTransport, fitPayload } from '../index';
+import { recordingTransport, testPayload } from './helpers';
+
+const serializedBytes = (value: unknown) => Buffer.byteLength(JSON.stringify(value), 'utf-8');
+
+function traceOf(stepCount: number, outputBytes: number): AgentTrace {
+  return {
+    version: 1,
+    startedAt: new Date(0).toISOString(),
+    steps: Array.from({ length: stepCount }, (_, index) => ({
+      index,
+      type: 'output' as const,
+      startedAt: new Date(index).toISOString(),
+      output: `step ${index} `.padEnd(outputBytes, 'x')
+    }))
+  };
+}
+
+describe('fitPayload', () => {
+  it('leaves payloads under the limit alone', () => {
+    const payload = testPayload({ trace: traceOf(3, 100) });
+    expect(fitPayload(payload, 10 * 1024)).toBe(payload);
+  });
+
+  it('drops the oldest trace steps first', () => {
+    const fitted = fitPayload(testPayload({ trace: traceOf(100, 1000) }), 20 * 1024);
+
+    expect(serializedBytes(fitted)).toBeLessThanOrEqual(20 * 1024);
+    expect(fitted.logs).toBe('Reading file...');
+    expect(fitted.trace?.steps[fitted.trace.steps.length - 1].index).toBe(99);
+    expect(fitted.trace?.droppedSteps).toBe(100 - (fitted.trace?.steps.length ?? 0));
+  });
+
+  it('drops the context before cutting the logs', () => {
+    const fitted = fitPayload(testPayload({
+      logs: 'log line\n'.repeat(1000),
+      context: { env: { BIG: 'x'.repeat(20 * 1024) } }
+    }), 16 * 1024);
+
+    expect(fitted.context).toBeUndefined();
+    expect(fitted.logs).toBe('log line\n'.repeat(1000));
+  });
+
+  it('cuts the logs down to their head and tail', () => {
+    const logs = `task started\n${'noise\n'.repeat(10000)}the real failure`;
+    const fitted = fitPayload(testPayload({ logs }), 8 * 1024);
+
+    expect(serializedBytes(fitted)).toBeLessThanOrEqual(8 * 1024);
+    expect(fitted.logs).toMatch(/^task started/);
+    expect(fitted.logs).toMatch(/the real failure$/);
+    expect(fitted.logs).toContain('truncated by BugBoard');
+  });
+
+  it('cuts the error and input when the logs are not enough', () => {
+    const fitted = fitPayload(testPayload({
+      logs: 'short',
+      error: 'e'.repeat(20 * 1024),
+      input: 'i'.repeat(20 * 1024)
+    }), 16 * 1024);
+
+    expect(serializedBytes(fitted)).toBeLessThanOrEqual(16 * 1024);
+    expect(fitted.input.length).toBeGreaterThan(0);
+  });
+
+  it('does not count attachments, which are uploaded separately', () => {
+    const attachments = [{ filename: 'big.bin', contentType: 'application/octet-stream', size: 30000, content: 'A'.repeat(40000) }];
+    const fitted = fitPayload(testPayload({ attachments }), 4 * 1024);
+
+    expect(fitted.attachments).toBe(attachments);
+    expect(fitted.logs).toBe('Reading file...');
+  });
+});
+
+describe('report size', () => {
+  it('keeps every report under the payload limit', async () => {
+    const transport = recordingTransport();
+    const agent = new BugBoardAgent({
+      agentName: 'payload-test',
+      transport,
+      outbox: false,
+      logs: { maxPayloadBytes: 32 * 1024 }
+    });
+
+    await agent.reportBug({
+      input: 'task',
+      logs: 'log line\n'.repeat(10000),
+      error: 'boom',
+      trace: traceOf(200, 500),
+      context: { env: { BIG: 'x'.repeat(64 * 1024) } }
+    });
+
+    expect(serializedBytes(transport.reports[0])).toBeLessThanOrEqual(32 * 1024);
+    expect(transport.reports[0].logsSize).toBe(90000);
+    agent.close();
+  });
+
+  it('keeps the suppressed occurrences summary when the logs are cut', async () => {
+    const transport = recordingTransport();
+    const agent = new BugBoardAgent({
+      agentName: 'payload-test',
+      transport,
+      outbox: false,
+      dedupe: false,
+      rateLimit: { maxPerFingerprint: 1 },
+      logs: { maxBytes: 4 * 1024 }
+    });
+    const logs = 'log line\n'.repeat(10000);
+
+    await agent.reportBug({ input: 'task', logs, error: 'boom' });
+    await agent.reportBug({ input: 'task', logs, error: 'boom' }).catch(() => undefined);
+    await agent.reportBug({ input: 'task', logs, error: 'another failure' });
+
+    const [, next] = transport.reports;
+    expect(Buffer.byteLength(next.logs, 'utf-8')).toBeLessThan(4 * 1024 + 100);
+    expect(next.logs).toContain('--- Occurrences suppressed ---');
+    expect(next.logs).toContain('1 occurrence(s) suppressed');
+    agent.close();
+  });
+
+  it('leaves logs that are uploaded in chunks out of the payload limit', async () => {
+    const transport = { ...recordingTransport(), chunkLogsOverBytes: 256 * 1024 };
+    const agent = new BugBoardAgent({
+      agentName: 'payload-test',
+      transport,
+      outbox: false,
+      logs: { maxBytes: Infinity, maxPayloadBytes: 32 * 1024 }
+    });
+    const logs = 'log line\n'.repeat(512 * 1024);
+
+    await agent.reportBug({ input: 'task', logs, error: 'boom', trace: traceOf(200, 500) });
+
+    const [report] = transport.reports;
+    expect(report.logs).toBe(logs);
+    expect(serializedBytes({ ...report, logs: '' })).toBeLessThanOrEqual(32 * 1024);
+    agent.close();
+  });
+
+  it('counts logs small enough to travel in the report', async () => {
+    const transport = { ...recordingTransport(), chunkLogsOverBytes: 256 * 1024 };
+    const agent = new BugBoardAgent({
+      agentName: 'payload-test',
+      transport,
+      outbox: false,
+      logs: { maxPayloadBytes: 32 * 1024 }
+    });
+
+    await agent.reportBug({ input: 'task', logs: 'log line\n'.repeat(10000), error: 'boom' });
+
+    expect(serializedBytes(transport.reports[0])).toBeLessThanOrEqual(32 * 1024);
+    agent.close();
+  });
+});
+
+describe('chunkLogsOverBytes', () => {
+  it('is the chunk size of the HTTP transport', () => {
+    expect(new HttpTransport({ chunkSizeBytes: 1024 }).chunkLogsOverBytes).toBe(1024);
+  });
+
+  it('only applies to a fan-out when every transport uploads logs in chunks', () => {
+    const small = new HttpTransport({ chunkSizeBytes: 1024 });
+    const large = new HttpTransport({ chunkSizeBytes: 4096 });
+
+    expect(new FanoutTransport([small, large]).chunkLogsOverBytes).toBe(4096);
+    expect(new FanoutTransport([small, recordingTransport()]).chunkLogsOverBytes).toBeUndefined();
+  });
+});
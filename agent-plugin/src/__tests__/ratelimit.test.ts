@@ -0,0 +1,81 @@
+import { BugBoardAgent, ReportRateLimitedError, ReportRateLimiter } from '../index';
+import { recordingTransport } from './helpers';
+
+function createAgent(rateLimit?: ConstructorParameters<typeof ReportRateLimiter>[0]) {
+  const transport = recordingTransport();
+  const agent = new BugBoardAgent({
+    agentName: 'ratelimit-test',
+    transport,
+    outbox: false,
+    dedupe: false,
+    rateLimit
+  });
+  return { agent, transport };
+}
+
+const bug = { input: 'Summarize the file', logs: 'Reading file...', error: 'ENOENT' };
+
+describe('ReportRateLimiter', () => {
+  it('caps reports per fingerprint, per hour and per session', () => {
+    const limiter = new ReportRateLimiter({ maxPerSession: 3, maxPerHour: 2, maxPerFingerprint: 1 });
+
+    limiter.record('a');
+    expect(limiter.check('a')).toBe('fingerprint');
+    expect(limiter.check('b')).toBeNull();
+
+    limiter.record('b');
+    expect(limiter.check('c')).toBe('hour');
+  });
+
+  it('treats a limit of 0 as no limit', () => {
+    const limiter = new ReportRateLimiter({ maxPerSession: 0, maxPerHour: 0, maxPerFingerprint: 0 });
+    for (let index = 0; index < 100; index++) {
+      limiter.record('a');
+    }
+    expect(limiter.check('a')).toBeNull();
+  });
+});
+
+describe('rate limited reports', () => {
+  it('does not limit manual reports by default', async () => {
+    const { agent, transport } = createAgent();
+
+    for (let index = 0; index < 5; index++) {
+      await agent.reportBug(bug);
+    }
+    expect(transport.reports).toHaveLength(5);
+    agent.close();
+  });
+
+  it('limits automatic reports by default', async () => {
+    const { agent, transport } = createAgent();
+
+    for (let index = 0; index < 3; index++) {
+      await agent.reportBug(bug, { automatic: true });
+    }
+    await expect(agent.reportBug(bug, { automatic: true })).rejects.toBeInstanceOf(ReportRateLimitedError);
+    expect(transport.reports).toHaveLength(3);
+    agent.close();
+  });
+
+  it('limits manual reports when rate limits are configured', async () => {
+    const { agent, transport } = createAgent({ maxPerFingerprint: 1 });
+
+    await agent.reportBug(bug);
+    await expect(agent.reportBug(bug)).rejects.toThrow('fingerprint rate limit reached');
+    expect(transport.reports).toHaveLength(1);
+    agent.close();
+  });
+
+  it('attaches suppressed occurrences to the next report that goes out', async () => {
+    const { agent, transport } = createAgent({ maxPerFingerprint: 1 });
+
+    await agent.reportBug(bug);
+    await agent.reportBug(bug).catch(() => undefined);
+    await agent.reportBug({ ...bug, error: 'EACCES' });
+
+    expect(transport.reports[1].suppressed).toMatchObject({ total: 1 });
+    expect(transport.reports[1].logs).toContain('--- Occurrences suppressed ---');
+    agent.close();
+  });
+});
@@ -0,0 +1,170 @@
+import { BugBoardAgent, ResolutionTimeoutError } from '../index';
+import { pollForResolution } from '../resolution';
+import { MockBugBoard, createMockBugBoard } from '../testing';
+import { BugRecord } from '../types';
+
+function bug(overrides: Partial<BugRecord> = {}): BugRecord {
+  return {
+    id: 'bug-1',
+    title: 'Error: ENOENT',
+    agent_name: 'resolution-test',
+    status: 'open',
+    bounty: 5,
+    upvotes: 0,
+    created_at: new Date(0).toISOString(),
+    ...overrides
+  };
+}
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    isAxiosError: true,
+    response: { status }
+  });
+}
+
+describe('pollForResolution', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // Backoff without jitter
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('polls with exponential backoff until the bug is resolved', async () => {
+    const polledAt: number[] = [];
+    const start = Date.now();
+    const fetchBug = jest.fn(async (id: string) => {
+      polledAt.push(Date.now() - start);
+      return polledAt.length < 5
+        ? bug({ id })
+        : bug({ id, status: 'resolved', fix_url: 'https://github.com/acme/agent/pull/7', fix_explanation: 'Check the path first' });
+    });
+
+    const resolution = pollForResolution(fetchBug, 'bug-1', { initialDelayMs: 100, maxDelayMs: 500 });
+    await jest.advanceTimersByTimeAsync(2000);
+
+    await expect(resolution).resolves.toMatchObject({
+      id: 'bug-1',
+      status: 'resolved',
+      fixUrl: 'https://github.com/acme/agent/pull/7',
+      fixExplanation: 'Check the path first'
+    });
+    // 100, 200, 400, then capped at 500
+    expect(polledAt).toEqual([0, 100, 300, 700, 1200]);
+  });
+
+  it('treats a bug marked won\'t fix as resolved', async () => {
+    const resolution = pollForResolution(async (id) => bug({ id, status: 'wont_fix' }), 'bug-1');
+    await expect(resolution).resolves.toMatchObject({ status: 'wont_fix', fixUrl: undefined });
+  });
+
+  it('retries network and server errors', async () => {
+    const fetchBug = jest.fn()
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValue(bug({ status: 'resolved' }));
+
+    const resolution = pollForResolution(fetchBug, 'bug-1', { initialDelayMs: 100 });
+    await jest.advanceTimersByTimeAsync(300);
+
+    await expect(resolution).resolves.toMatchObject({ status: 'resolved' });
+    expect(fetchBug).toHaveBeenCalledTimes(3);
+  });
+
+  it('fails right away for a bug that does not exist', async () => {
+    const fetchBug = jest.fn().mockRejectedValue(httpError(404));
+
+    await expect(pollForResolution(fetchBug, 'missing')).rejects.toThrow('status code 404');
+    expect(fetchBug).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after timeoutMs, polling once more at the deadline', async () => {
+    const polledAt: number[] = [];
+    const start = Date.now();
+    const resolution = pollForResolution(async (id) => {
+      polledAt.push(Date.now() - start);
+      return bug({ id });
+    }, 'bug-1', { initialDelayMs: 100, timeoutMs: 250 });
+    const rejected = expect(resolution).rejects.toBeInstanceOf(ResolutionTimeoutError);
+
+    await jest.advanceTimersByTimeAsync(250);
+
+    await rejected;
+    expect(polledAt).toEqual([0, 100, 250]);
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const fetchBug = jest.fn(async (id: string) => bug({ id }));
+    const resolution = pollForResolution(fetchBug, 'bug-1', { initialDelayMs: 100, signal: controller.signal });
+    const rejected = expect(resolution).rejects.toThrow('Waiting for resolution was aborted');
+
+    await jest.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    await rejected;
+    expect(fetchBug).toHaveBeenCalledTimes(1);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
+
+describe('resolution against the API', () => {
+  let bugboard: MockBugBoard;
+  let agent: BugBoardAgent;
+
+  beforeEach(async () => {
+    bugboard = await createMockBugBoard();
+    agent = new BugBoardAgent({ agentName: 'resolution-test', apiUrl: bugboard.apiUrl, outbox: false });
+  });
+
+  afterEach(async () => {
+    agent.close();
+    await bugboard.close();
+  });
+
+  const report = () => agent.reportBug({ input: 'task', logs: 'Reading file...', error: 'ENOENT' });
+
+  it('waitForResolution resolves with the accepted fix', async () => {
+    const { id } = await report();
+    const resolution = agent.waitForResolution(id, { initialDelayMs: 10, maxDelayMs: 20 });
+    setTimeout(() => {
+      bugboard.resolve(id, { fixUrl: 'https://github.com/acme/agent/pull/7', explanation: 'Check the path first' });
+    }, 30);
+
+    await expect(resolution).resolves.toMatchObject({
+      id,
+      status: 'resolved',
+      fixUrl: 'https://github.com/acme/agent/pull/7',
+      fixExplanation: 'Check the path first'
+    });
+  });
+
+  it('onResolved calls the listener once the bug is resolved', async () => {
+    const { id } = await report();
+    const resolved = new Promise((resolve) => agent.onResolved(id, resolve, { initialDelayMs: 10, maxDelayMs: 20 }));
+
+    bugboard.resolve(id, { fixUrl: 'https://github.com/acme/agent/pull/8' });
+
+    await expect(resolved).resolves.toMatchObject({ id, fixUrl: 'https://github.com/acme/agent/pull/8' });
+  });
+
+  it('onResolved stops polling once unsubscribed or closed', async () => {
+    const { id } = await report();
+    const listener = jest.fn();
+    const unsubscribe = agent.onResolved(id, listener, { initialDelayMs: 10, maxDelayMs: 20 });
+    agent.onResolved(id, listener, { initialDelayMs: 10, maxDelayMs: 20 });
+
+    unsubscribe();
+    agent.close();
+    bugboard.resolve(id);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
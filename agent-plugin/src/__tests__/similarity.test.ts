@@ -0,0 +1,81 @@
+import { createSimilarLoopDetector, DetectorState } from '../detectors';
+import { jaccard, normalizeOutput, outputSimilarity, shingle } from '../similarity';
+
+describe('normalizeOutput', () => {
+  it('masks timestamps, UUIDs, hashes and numbers', () => {
+    expect(normalizeOutput('2024-05-01T10:20:30Z request 3f2a9c1e-1b2c-4d5e-8f90-123456789abc took 42ms'))
+      .toBe('<ts> request <uuid> took <n>ms');
+    expect(normalizeOutput('commit deadbeefcafe at 10:20')).toBe('commit <hex> at <time>');
+  });
+
+  it('lowercases and collapses whitespace', () => {
+    expect(normalizeOutput('  Retrying\n\tTHE   request ')).toBe('retrying the request');
+  });
+});
+
+describe('outputSimilarity', () => {
+  it('treats outputs that only differ in volatile details as identical', () => {
+    expect(outputSimilarity(
+      'Attempt 1 at 2024-05-01T10:00:00Z: connection refused',
+      'Attempt 2 at 2024-05-01T10:00:05Z: connection refused'
+    )).toBe(1);
+  });
+
+  it('scores unrelated outputs low', () => {
+    expect(outputSimilarity('Reading the configuration file', 'Deploying to production')).toBeLessThan(0.2);
+  });
+
+  it('is 1 for two empty outputs', () => {
+    expect(jaccard(shingle(''), shingle(''))).toBe(1);
+  });
+});
+
+describe('createSimilarLoopDetector', () => {
+  const state: DetectorState = { outputs: [], buildFailures: 0, lastActivity: 0, timeoutMs: 1000, now: 0 };
+
+  const feed = (detector: ReturnType<typeof createSimilarLoopDetector>, outputs: string[]) =>
+    outputs.map((output, at) => detector.check({ type: 'output', output, at }, state));
+
+  it('fires on near-identical outputs repeated in a row', () => {
+    const detector = createSimilarLoopDetector();
+    const results = feed(detector, [1, 2, 3].map((n) => `Attempt ${n}: the tool call failed, retrying`));
+
+    expect(results.slice(0, 2)).toEqual([null, null]);
+    expect(results[2]).toMatchObject({ reason: 'Agent stuck in near-identical output loop', evidence: { period: 1 } });
+  });
+
+  it('fires on a repeating multi-step cycle', () => {
+    const detector = createSimilarLoopDetector();
+    const cycle = ['Calling the search tool', 'Search returned no results, rephrasing the query'];
+    const results = feed(detector, [...cycle, ...cycle, ...cycle]);
+
+    expect(results[5]).toMatchObject({ reason: 'Agent stuck in a 2-step output cycle', evidence: { period: 2 } });
+  });
+
+  it('does not fire on outputs that make progress', () => {
+    const detector = createSimilarLoopDetector();
+    const results = feed(detector, [
+      'Reading the configuration file',
+      'Found three services to deploy',
+      'Building the api service',
+      'Running the test suite',
+      'Deploying to production'
+    ]);
+
+    expect(results.every((result) => result === null)).toBe(true);
+  });
+
+  it('forgets earlier outputs when reset', () => {
+    const detector = createSimilarLoopDetector();
+    feed(detector, ['Retrying the request', 'Retrying the request']);
+    detector.reset?.();
+
+    expect(feed(detector, ['Retrying the request'])).toEqual([null]);
+  });
+
+  it('ignores signals other than output', () => {
+    const detector = createSimilarLoopDetector({ repetitions: 1 });
+
+    expect(detector.check({ type: 'tick', at: 0 }, state)).toBeNull();
+  });
+});
@@ -0,0 +1,209 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { MockBugBoard, createMockBugBoard } from '../testing';
+import { ConsoleTransport, FanoutTransport, FileTransport, HttpTransport, Transport, readReportFile } from '../transport';
+import { recordingTransport, testPayload } from './helpers';
+
+describe('HttpTransport', () => {
+  let bugboard: MockBugBoard;
+  let requests: AxiosRequestConfig[];
+
+  beforeEach(async () => {
+    bugboard = await createMockBugBoard({ apiKeys: { 'key-1': 'test-agent' } });
+    requests = [];
+    const request = axios.request.bind(axios);
+    jest.spyOn(axios, 'request').mockImplementation((config) => {
+      requests.push(config);
+      return request(config);
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await bugboard.close();
+  });
+
+  it('posts the report with the API key and links to the bug page', async () => {
+    const transport = new HttpTransport({ apiUrl: bugboard.apiUrl, apiKey: 'key-1' });
+
+    const result = await transport.send(testPayload());
+
+    const [bug] = bugboard.bugs;
+    expect(result).toEqual({ id: bug.id, url: `${bugboard.apiUrl.replace('/api', '')}/bugs/${bug.id}` });
+    bugboard.expectReported({ input: 'Summarize the file', error: 'ENOENT: no such file' });
+    expect(requests[0].headers).toMatchObject({ Authorization: 'Bearer key-1' });
+    expect(requests[0].headers).not.toHaveProperty('Content-Encoding');
+  });
+
+  it('gzips large request bodies unless compression is off', async () => {
+    const payload = testPayload({ context: { notes: 'x'.repeat(32 * 1024) } });
+
+    await new HttpTransport({ apiUrl: bugboard.apiUrl }).send(payload);
+    await new HttpTransport({ apiUrl: bugboard.apiUrl, compress: false }).send(payload);
+
+    expect(requests.map((request) => (request.headers as Record<string, string>)['Content-Encoding'])).toEqual(['gzip', undefined]);
+    expect(bugboard.reports[0].context).toEqual(payload.context);
+  });
+
+  it('uploads logs over chunkSizeBytes in chunks', async () => {
+    const logs = 'Calling search tool\n'.repeat(200);
+    const transport = new HttpTransport({ apiUrl: bugboard.apiUrl, chunkSizeBytes: 1024 });
+
+    await transport.send(testPayload({ logs }));
+
+    const urls = requests.map((request) => `${request.method} ${request.url?.replace(bugboard.apiUrl, '')}`);
+    expect(urls[0]).toBe('post /bugs/log-uploads');
+    expect(urls.filter((url) => /^put \/bugs\/log-uploads\/[^/]+\/chunks\/\d+$/.test(url))).toHaveLength(4);
+    expect(urls[urls.length - 1]).toBe('post /bugs');
+    expect(bugboard.reports[0].logs).toBe(logs);
+    expect(transport.chunkLogsOverBytes).toBe(1024);
+  });
+
+  it('uploads attachments, logging the ones that fail', async () => {
+    const errors = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const content = Buffer.from('test output');
+
+    await new HttpTransport({ apiUrl: bugboard.apiUrl }).send(testPayload({
+      attachments: [
+        { filename: 'empty.txt', contentType: 'text/plain', size: 0, content: '' },
+        { filename: 'output.txt', contentType: 'text/plain', size: content.length, content: content.toString('base64') }
+      ]
+    }));
+
+    expect(bugboard.attachments.map((attachment) => attachment.filename)).toEqual(['output.txt']);
+    expect(bugboard.attachments[0].content).toEqual(content);
+    expect(errors).toHaveBeenCalledWith(expect.stringMatching(/^Failed to upload attachment "empty.txt" to bug /), expect.stringContaining('413'));
+  });
+
+  it('rejects with the API error', async () => {
+    bugboard.failNext(1, 503);
+
+    await expect(new HttpTransport({ apiUrl: bugboard.apiUrl }).send(testPayload())).rejects.toMatchObject({
+      response: { status: 503 }
+    });
+  });
+});
+
+describe('FileTransport', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'bugboard-transport-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('appends each report as a line that readReportFile reads back', async () => {
+    const file = path.join(directory, 'reports', 'bugs.jsonl');
+    const transport = new FileTransport(file);
+    const first = testPayload({ error: 'first' });
+    const second = testPayload({ error: 'second', logs: 'line one\nline two' });
+
+    const result = await transport.send(first);
+    await transport.send(second);
+
+    expect(result.url).toBe(pathToFileURL(file).href);
+    expect((await fs.readFile(file, 'utf-8')).split('\n')).toHaveLength(3);
+    await expect(readReportFile(file)).resolves.toEqual([first, second]);
+  });
+
+  it('skips blank and malformed lines', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const file = path.join(directory, 'bugs.jsonl');
+    const payload = testPayload();
+    // A crash mid-write leaves half a line at the end
+    await fs.writeFile(file, `${JSON.stringify(payload)}\n\n{"agentName": "test-ag`);
+
+    await expect(readReportFile(file)).resolves.toEqual([payload]);
+    expect(console.error).toHaveBeenCalledWith(`Skipping malformed line in ${file}`);
+  });
+});
+
+describe('ConsoleTransport', () => {
+  it('prints a one-line summary', async () => {
+    const lines: string[] = [];
+    const transport = new ConsoleTransport({ log: (line) => lines.push(line) });
+
+    const result = await transport.send(testPayload({ error: 'ENOENT: no such file\n    at open' }));
+
+    expect(lines).toEqual(['[bugboard] test-agent: ENOENT: no such file (test-fingerprint)']);
+    expect(result.url).toBe(`dry-run:${result.id}`);
+    expect(result.id).toMatch(/^dry-run-/);
+  });
+
+  it('prints the whole payload when verbose', async () => {
+    const lines: string[] = [];
+    const payload = testPayload({ error: undefined });
+
+    await new ConsoleTransport({ verbose: true, log: (line) => lines.push(line) }).send(payload);
+
+    expect(lines[0]).toBe('[bugboard] test-agent: Summarize the file (test-fingerprint)');
+    expect(JSON.parse(lines[1])).toEqual(payload);
+  });
+});
+
+describe('FanoutTransport', () => {
+  function failing(name: string, error: Error): Transport & { close: jest.Mock } {
+    return {
+      name,
+      close: jest.fn(),
+      send: async () => {
+        throw error;
+      }
+    };
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends to every transport and answers with the first that succeeded', async () => {
+    const first = recordingTransport();
+    const second = recordingTransport();
+    const payload = testPayload();
+
+    const result = await new FanoutTransport([failing('down', new Error('ECONNREFUSED')), first, second]).send(payload);
+
+    expect(result).toEqual({ id: 'bug-1', url: 'test:bug-1' });
+    expect(first.reports).toEqual([payload]);
+    expect(second.reports).toEqual([payload]);
+    expect(console.error).toHaveBeenCalledWith('BugBoard transport "down" failed:', new Error('ECONNREFUSED'));
+  });
+
+  it('fails with the first error when every transport fails', async () => {
+    const fanout = new FanoutTransport([failing('http', new Error('ECONNREFUSED')), failing('file', new Error('EACCES'))]);
+
+    await expect(fanout.send(testPayload())).rejects.toThrow('ECONNREFUSED');
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  it('needs at least one transport', () => {
+    expect(() => new FanoutTransport([])).toThrow('FanoutTransport needs at least one transport');
+  });
+
+  it('closes every transport', () => {
+    const transports = [failing('a', new Error()), recordingTransport(), failing('b', new Error())];
+
+    new FanoutTransport(transports).close();
+
+    expect(transports[0].close).toHaveBeenCalled();
+    expect(transports[2].close).toHaveBeenCalled();
+  });
+
+  it('only chunks logs when every transport does', () => {
+    const http = new HttpTransport({ chunkSizeBytes: 1024 });
+
+    expect(new FanoutTransport([http, new HttpTransport()]).chunkLogsOverBytes).toBe(256 * 1024);
+    expect(new FanoutTransport([http, recordingTransport()]).chunkLogsOverBytes).toBeUndefined();
+  });
+});
@@ -0,0 +1,119 @@
+import { BugBoardAgent } from '../index';
+import { createTimeoutDetector } from '../detectors';
+import { recordingTransport } from './helpers';
+
+const TIMEOUT_MS = 1000;
+
+function createAgent() {
+  const transport = recordingTransport();
+  const agent = new BugBoardAgent({
+    agentName: 'watchdog-test',
+    transport,
+    outbox: false,
+    dedupe: false,
+    rateLimit: false,
+    timeoutMs: TIMEOUT_MS,
+    watchdogIntervalMs: 100
+  });
+  return { agent, transport };
+}
+
+describe('inactivity watchdog', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reports an agent that goes idle for longer than the timeout', async () => {
+    const { agent, transport } = createAgent();
+    agent.start();
+
+    await jest.advanceTimersByTimeAsync(TIMEOUT_MS);
+    expect(transport.reports).toHaveLength(0);
+
+    await jest.advanceTimersByTimeAsync(200);
+    expect(transport.reports).toHaveLength(1);
+    expect(transport.reports[0].error).toMatch(/Agent timed out/);
+
+    agent.close();
+  });
+
+  it('reports an agent that stays idle only once', async () => {
+    const { agent, transport } = createAgent();
+    agent.start();
+
+    await jest.advanceTimersByTimeAsync(TIMEOUT_MS * 10);
+
+    expect(transport.reports).toHaveLength(1);
+    agent.close();
+  });
+
+  it('reports again after activity starts a new idle period', async () => {
+    const { agent, transport } = createAgent();
+    agent.start();
+
+    await jest.advanceTimersByTimeAsync(TIMEOUT_MS * 2);
+    agent.heartbeat();
+    await jest.advanceTimersByTimeAsync(TIMEOUT_MS / 2);
+    expect(transport.reports).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(TIMEOUT_MS);
+    expect(transport.reports).toHaveLength(2);
+    agent.close();
+  });
+
+  it('does not report while heartbeats keep arriving', async () => {
+    const { agent, transport } = createAgent();
+    agent.start();
+
+    for (let i = 0; i < 10; i++) {
+      await jest.advanceTimersByTimeAsync(TIMEOUT_MS / 2);
+      agent.heartbeat();
+    }
+
+    expect(transport.reports).toHaveLength(0);
+    agent.close();
+  });
+
+  it('stops checking once stopped', async () => {
+    const { agent, transport } = createAgent();
+    agent.start();
+    expect(agent.isRunning()).toBe(true);
+
+    agent.stop();
+    await jest.advanceTimersByTimeAsync(TIMEOUT_MS * 2);
+
+    expect(agent.isRunning()).toBe(false);
+    expect(transport.reports).toHaveLength(0);
+    agent.close();
+  });
+});
+
+describe('createTimeoutDetector', () => {
+  const tick = (now: number) => ({ type: 'tick' as const, at: now });
+  const state = (lastActivity: number, now: number) => ({
+    outputs: [],
+    buildFailures: 0,
+    lastActivity,
+    timeoutMs: TIMEOUT_MS,
+    now
+  });
+
+  it('stays latched through a reset until there is new activity', () => {
+    const detector = createTimeoutDetector();
+
+    expect(detector.check(tick(2000), state(0, 2000))).not.toBeNull();
+    detector.reset?.();
+    expect(detector.check(tick(5000), state(0, 5000))).toBeNull();
+    expect(detector.check(tick(7000), state(5500, 7000))).not.toBeNull();
+  });
+
+  it('only fires on watchdog ticks', () => {
+    const detector = createTimeoutDetector();
+
+    expect(detector.check({ type: 'output', output: 'x', at: 2000 }, state(0, 2000))).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+import { BugBoardAgent, BugReportPayload, withBugBoard } from '../index';
+import { recordingTransport } from './helpers';
+
+function createAgent() {
+  const transport = recordingTransport();
+  const agent = new BugBoardAgent({ agentName: 'wrap-test', transport, outbox: false, dedupe: false, rateLimit: false });
+  return { agent, transport };
+}
+
+/**
+ * Resolves with the next report the agent sends
+ */
+function nextReport(agent: BugBoardAgent): Promise<BugReportPayload> {
+  return new Promise((resolve) => agent.once('reported', ({ payload }) => resolve(payload)));
+}
+
+describe('withBugBoard', () => {
+  let agent: BugBoardAgent;
+  let transport: ReturnType<typeof recordingTransport>;
+
+  beforeEach(() => {
+    ({ agent, transport } = createAgent());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    agent.close();
+  });
+
+  it('times each call and records it in the trace', async () => {
+    jest.useFakeTimers();
+    const plan = withBugBoard(agent, async (task: string) => {
+      await new Promise((resolve) => setTimeout(resolve, 250));
+      return `plan for ${task}`;
+    }, { name: 'plan' });
+
+    const result = plan('refactor');
+    await jest.advanceTimersByTimeAsync(250);
+
+    await expect(result).resolves.toBe('plan for refactor');
+    expect(agent.trace.toJSON().steps).toEqual([
+      expect.objectContaining({ type: 'output', name: 'plan', input: 'refactor', output: 'plan for refactor', durationMs: 250 })
+    ]);
+  });
+
+  it('tracks outputs so the loop detectors see them', async () => {
+    const plan = withBugBoard(agent, async () => ({ action: 'retry' }), { name: 'plan' });
+    const reported = nextReport(agent);
+
+    for (let call = 0; call < 3; call++) {
+      await plan('task');
+    }
+
+    const report = await reported;
+    expect(report.error).toMatch(/Agent stuck in output loop/);
+    expect(report.logs).toMatch(/--- withBugBoard: plan #\d+ ---/);
+    expect(report.logs).toContain('"action": "retry"');
+  });
+
+  it('reports once errorThreshold errors are thrown and rethrows each', async () => {
+    const build = withBugBoard(agent, async (code: string): Promise<string> => {
+      throw new Error(`Cannot compile ${code}`);
+    }, { name: 'build', errorThreshold: 2 });
+
+    await expect(build('a.ts')).rejects.toThrow('Cannot compile a.ts');
+    expect(transport.reports).toHaveLength(0);
+
+    const reported = nextReport(agent);
+    await expect(build('b.ts')).rejects.toThrow('Cannot compile b.ts');
+    const report = await reported;
+    expect(report.input).toBe('b.ts');
+    expect(report.error).toMatch(/^Error: Cannot compile b.ts\n\s+at /);
+    expect(report.logs).toContain('error: Cannot compile a.ts');
+
+    // The count starts again after a report
+    await expect(build('c.ts')).rejects.toThrow();
+    expect(transport.reports).toHaveLength(1);
+  });
+
+  it('keeps a log source per wrapper, even without a name', async () => {
+    const first = withBugBoard(agent, async (input: string) => `first ${input}`);
+    const second = withBugBoard(agent, async (input: string) => `second ${input}`);
+    await first('call');
+    await second('call');
+
+    const reported = nextReport(agent);
+    agent.trackBuildFailure();
+    agent.trackBuildFailure();
+    agent.trackBuildFailure();
+
+    const { logs } = await reported;
+    expect(logs.match(/--- withBugBoard: step #\d+ ---/g)).toHaveLength(2);
+    expect(logs).toContain('output: first call');
+    expect(logs).toContain('output: second call');
+  });
+
+  it('stops adding its calls to reports once unregistered', async () => {
+    const plan = withBugBoard(agent, async (input: string) => `plan ${input}`, { name: 'plan' });
+    await plan('call');
+    plan.unregister();
+
+    const reported = nextReport(agent);
+    agent.trackBuildFailure();
+    agent.trackBuildFailure();
+    agent.trackBuildFailure();
+
+    expect((await reported).logs).not.toContain('withBugBoard: plan');
+  });
+});
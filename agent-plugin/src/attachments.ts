@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * A file to attach to a report, read from disk or given in memory. Text
+ * attachments are redacted like the rest of the report; binary ones are
+ * sent as-is.
+ */
+export type BugAttachment =
+  | { path: string; filename?: string; contentType?: string }
+  | { content: Buffer | string; filename: string; contentType?: string };
+
+/**
+ * An attachment as carried in the payload, so it survives the outbox and
+ * file transports
+ */
+export interface EncodedAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  /** Base64 */
+  content: string;
+}
+
+/** Matches the backend's default limit */
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+/** Matches the backend's limit per bug */
+export const MAX_ATTACHMENTS = 20;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.md': 'text/markdown',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+export function guessContentType(filename: string): string {
+  return CONTENT_TYPES[path.extname(filename).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Whether an attachment's content is text that redaction can apply to
+ */
+export function isTextContentType(contentType: string): boolean {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  return type.startsWith('text/') || type === 'application/json' || type === 'application/xml';
+}
+
+/**
+ * Read and encode attachments. Files that can't be read or are over
+ * `maxBytes`, and any past the first `MAX_ATTACHMENTS`, are left out
+ * rather than failing the report.
+ */
+export async function encodeAttachments(
+  attachments: BugAttachment[],
+  maxBytes: number = MAX_ATTACHMENT_BYTES
+): Promise<EncodedAttachment[]> {
+  const encoded: EncodedAttachment[] = [];
+
+  if (attachments.length > MAX_ATTACHMENTS) {
+    console.error(`Skipping ${attachments.length - MAX_ATTACHMENTS} BugBoard attachment(s): at most ${MAX_ATTACHMENTS} are sent per report`);
+  }
+
+  for (const attachment of attachments.slice(0, MAX_ATTACHMENTS)) {
+    const filename = attachment.filename || path.basename('path' in attachment ? attachment.path : '');
+    let content: Buffer;
+
+    try {
+      content = 'path' in attachment
+        ? await fs.readFile(attachment.path)
+        : Buffer.isBuffer(attachment.content) ? attachment.content : Buffer.from(attachment.content, 'utf-8');
+    } catch (error) {
+      console.error(`Skipping BugBoard attachment "${filename}":`, error instanceof Error ? error.message : error);
+      continue;
+    }
+
+    if (content.length === 0 || content.length > maxBytes) {
+      console.error(`Skipping BugBoard attachment "${filename}": ${content.length} bytes is outside the 1-${maxBytes} byte limit`);
+      continue;
+    }
+
+    encoded.push({
+      filename,
+      contentType: attachment.contentType || guessContentType(filename),
+      size: content.length,
+      content: content.toString('base64')
+    });
+  }
+
+  return encoded;
+}
@@ -0,0 +1,376 @@
+#!/usr/bin/env node
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { ReportVetoedError } from './events';
+import { BugBoardAgent } from './index';
+import { ReportQueuedError } from './outbox';
+import { ReportRateLimitedError } from './ratelimit';
+import { normalizeOutput } from './similarity';
+import { ConsoleTransport, HttpTransport, readReportFile } from './transport';
+import { BugReportPayload } from './types';
+
+const USAGE = `Usage: bugboard <command> [options]
+
+Commands:
+  report [files...]        Report a bug. Logs are read from the files, or
+                           from stdin when no files are given.
+  status <id>              Show a bug's current state
+  watch [options] -- <cmd> Run a command and report a bug when it repeats
+                           the same output or exits with a non-zero code
+  upload <file>            Send reports recorded by a FileTransport
+
+Options:
+  --input <text>           What the agent was asked to do
+  --error <text>           The error message
+  --agent <name>           Agent name (env BUGBOARD_AGENT_NAME)
+  --api-url <url>          BugBoard API URL (env BUGBOARD_API_URL)
+  --api-key <key>          Agent API key (env BUGBOARD_API_KEY)
+  --run-id <id>            Link reports from one run (env BUGBOARD_RUN_ID)
+  --dry-run                Print reports instead of sending them
+  --repeat <n>             watch: identical lines in a row that count as
+                           stuck, defaults to 5
+  --tail <n>               watch: lines of output kept for the report,
+                           defaults to 200
+  -h, --help               Show this help
+`;
+
+interface ParsedArgs {
+  command?: string;
+  positionals: string[];
+  options: Record<string, string>;
+  /** Everything after `--` */
+  rest: string[];
+}
+
+const BOOLEAN_FLAGS = new Set(['help', 'dry-run']);
+
+export function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positionals: [], options: {}, rest: [] };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--') {
+      parsed.rest = argv.slice(i + 1);
+      break;
+    }
+
+    if (arg === '-h' || arg.startsWith('--')) {
+      const [name, inlineValue] = arg === '-h' ? ['help'] : arg.slice(2).split(/=(.*)/s, 2);
+      if (BOOLEAN_FLAGS.has(name)) {
+        parsed.options[name] = 'true';
+      } else if (inlineValue !== undefined) {
+        parsed.options[name] = inlineValue;
+      } else if (i + 1 < argv.length) {
+        parsed.options[name] = argv[++i];
+      } else {
+        throw new Error(`Missing value for --${name}`);
+      }
+      continue;
+    }
+
+    if (!parsed.command) {
+      parsed.command = arg;
+    } else {
+      parsed.positionals.push(arg);
+    }
+  }
+
+  return parsed;
+}
+
+function createAgent(options: Record<string, string>): BugBoardAgent {
+  return new BugBoardAgent({
+    agentName: options.agent || process.env.BUGBOARD_AGENT_NAME || 'bugboard-cli',
+    apiUrl: options['api-url'] || process.env.BUGBOARD_API_URL,
+    apiKey: options['api-key'] || process.env.BUGBOARD_API_KEY,
+    runId: options['run-id'] || process.env.BUGBOARD_RUN_ID,
+    transport: options['dry-run'] ? new ConsoleTransport({ verbose: true }) : undefined,
+    outbox: options['dry-run'] ? false : undefined
+  });
+}
+
+/**
+ * A positive whole-number option, or `defaultValue` when it isn't given
+ */
+function countOption(options: Record<string, string>, name: string, defaultValue: number): number {
+  const value = options[name];
+  if (value === undefined) return defaultValue;
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`--${name} must be a positive whole number, got "${value}"`);
+  }
+  return count;
+}
+
+/**
+ * Why a report wasn't filed. Without the outbox, e.g. on a dry run,
+ * nothing is kept for retry.
+ */
+function reportFailureMessage(error: unknown): string {
+  if (error instanceof ReportVetoedError) {
+    return error.reason ? `The report was vetoed: ${error.reason}` : 'The report was vetoed';
+  }
+  if (error instanceof ReportRateLimitedError) {
+    return `The report was not sent: the ${error.reason} rate limit was reached`;
+  }
+
+  if (error instanceof ReportQueuedError) {
+    const cause = error.cause instanceof Error ? error.cause.message : String(error.cause);
+    return `The report could not be delivered and was queued for retry: ${cause}`;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return `The report could not be delivered: ${message}`;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+async function report(args: ParsedArgs): Promise<number> {
+  let logs: string;
+
+  if (args.positionals.length > 0) {
+    try {
+      const files = await Promise.all(
+        args.positionals.map(async (file) => `--- ${path.basename(file)} ---\n${await fs.readFile(file, 'utf-8')}`)
+      );
+      logs = files.join('\n\n');
+    } catch (error) {
+      console.error('Failed to read logs:', error instanceof Error ? error.message : error);
+      return 1;
+    }
+  } else if (!process.stdin.isTTY) {
+    logs = await readStdin();
+  } else {
+    console.error('No logs given: pass log files or pipe them into stdin');
+    return 1;
+  }
+
+  if (!logs.trim()) {
+    console.error('Logs are empty, nothing to report');
+    return 1;
+  }
+
+  const agent = createAgent(args.options);
+  try {
+    const { url } = await agent.reportBug({
+      input: args.options.input || 'Reported from the bugboard CLI',
+      logs,
+      error: args.options.error
+    });
+    console.log(url);
+    return 0;
+  } catch (error) {
+    console.error(reportFailureMessage(error));
+    return 1;
+  } finally {
+    agent.close();
+  }
+}
+
+async function status(args: ParsedArgs): Promise<number> {
+  const [id] = args.positionals;
+  if (!id) {
+    console.error('Usage: bugboard status <id>');
+    return 1;
+  }
+
+  const agent = createAgent(args.options);
+  try {
+    const bug = await agent.getBug(id);
+    console.log(`${bug.title}`);
+    console.log(`Status:   ${bug.status.replace('_', ' ')}`);
+    console.log(`Agent:    ${bug.agent_name}`);
+    console.log(`Bounty:   $${bug.bounty}`);
+    console.log(`Reported: ${bug.created_at}`);
+    if (bug.fix_url) {
+      console.log(`Fix:      ${bug.fix_url}`);
+    }
+    console.log(`URL:      ${agent.getBugUrl(bug.id)}`);
+    return 0;
+  } catch (error) {
+    console.error(`Failed to fetch bug ${id}:`, error instanceof Error ? error.message : error);
+    return 1;
+  } finally {
+    agent.close();
+  }
+}
+
+async function watch(args: ParsedArgs): Promise<number> {
+  const [command, ...commandArgs] = args.rest;
+  if (!command) {
+    console.error('Usage: bugboard watch [options] -- <command> [args...]');
+    return 1;
+  }
+
+  let repeatThreshold: number;
+  let tailSize: number;
+  try {
+    repeatThreshold = countOption(args.options, 'repeat', 5);
+    tailSize = countOption(args.options, 'tail', 200);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  }
+
+  const commandLine = [command, ...commandArgs].join(' ');
+  const agent = createAgent(args.options);
+  const tail: string[] = [];
+  const reports: Promise<unknown>[] = [];
+  let lastLine = '';
+  let repeats = 0;
+  let reportedLoop = false;
+
+  const fileReport = (error: string) => {
+    const pending = agent.reportBug({
+      input: args.options.input || `bugboard watch -- ${commandLine}`,
+      logs: tail.join('\n'),
+      error
+    }, { automatic: true }).then(
+      ({ url }) => console.error(`[bugboard] Reported: ${url}`),
+      (error) => console.error(`[bugboard] ${reportFailureMessage(error)}`)
+    );
+    reports.push(pending);
+  };
+
+  const onLine = (line: string) => {
+    tail.push(line);
+    if (tail.length > tailSize) {
+      tail.shift();
+    }
+
+    // Blank lines repeat legitimately, so they don't count towards a loop
+    const normalized = normalizeOutput(line);
+    if (!normalized) return;
+
+    repeats = normalized === lastLine ? repeats + 1 : 1;
+    lastLine = normalized;
+
+    if (repeats >= repeatThreshold && !reportedLoop) {
+      reportedLoop = true;
+      fileReport(`Command "${commandLine}" repeated the same output ${repeats} times: ${line.trim()}`);
+    }
+  };
+
+  const child = spawn(command, commandArgs, { stdio: ['inherit', 'pipe', 'pipe'] });
+
+  readline.createInterface({ input: child.stdout }).on('line', (line) => {
+    process.stdout.write(`${line}\n`);
+    onLine(line);
+  });
+  readline.createInterface({ input: child.stderr }).on('line', (line) => {
+    process.stderr.write(`${line}\n`);
+    onLine(line);
+  });
+
+  const exitCode = await new Promise<number>((resolve) => {
+    let failedToStart = false;
+
+    child.on('error', (error) => {
+      failedToStart = true;
+      tail.push(error.message);
+      fileReport(`Command "${commandLine}" failed to start: ${error.message}`);
+      resolve(127);
+    });
+    child.on('close', (code, signal) => {
+      // A command that failed to start may still emit close
+      if (failedToStart) return;
+
+      if (code !== 0 && code !== null) {
+        fileReport(`Command "${commandLine}" exited with code ${code}`);
+      } else if (signal) {
+        fileReport(`Command "${commandLine}" was killed by ${signal}`);
+      }
+      resolve(code ?? 1);
+    });
+  });
+
+  await Promise.all(reports);
+  agent.close();
+  return exitCode;
+}
+
+async function upload(args: ParsedArgs): Promise<number> {
+  const [file] = args.positionals;
+  if (!file) {
+    console.error('Usage: bugboard upload <file>');
+    return 1;
+  }
+
+  let payloads: BugReportPayload[];
+  try {
+    payloads = await readReportFile(file);
+  } catch (error) {
+    console.error(`Failed to read reports from ${file}:`, error instanceof Error ? error.message : error);
+    return 1;
+  }
+
+  const transport = new HttpTransport({
+    apiUrl: args.options['api-url'] || process.env.BUGBOARD_API_URL,
+    apiKey: args.options['api-key'] || process.env.BUGBOARD_API_KEY
+  });
+  let failed = 0;
+
+  // One at a time, so the API sees the reports in the order they happened
+  for (const payload of payloads) {
+    try {
+      const { url } = await transport.send(payload);
+      console.log(url);
+    } catch (error) {
+      failed += 1;
+      console.error(`Failed to upload report ${payload.fingerprint}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  console.error(`Uploaded ${payloads.length - failed} of ${payloads.length} reports`);
+  return failed > 0 ? 1 : 0;
+}
+
+export async function main(argv: string[]): Promise<number> {
+  let args: ParsedArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  }
+
+  if (args.options.help || !args.command) {
+    console.log(USAGE);
+    return args.command || args.options.help ? 0 : 1;
+  }
+
+  switch (args.command) {
+    case 'report':
+      return report(args);
+    case 'status':
+      return status(args);
+    case 'watch':
+      return watch(args);
+    case 'upload':
+      return upload(args);
+    default:
+      console.error(`Unknown command: ${args.command}\n\n${USAGE}`);
+      return 1;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2))
+    .then((code) => {
+      process.exitCode = code;
+    })
+    .catch((error) => {
+      console.error(error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+    });
+}
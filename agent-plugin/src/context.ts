@@ -0,0 +1,138 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Environment details sent with a report as `context`
+ */
+export interface RuntimeContext {
+  node?: { version: string };
+  os?: { platform: string; release: string; arch: string };
+  host?: { name?: string; version?: string };
+  packages?: Record<string, string>;
+  model?: { name: string; provider?: string };
+  git?: { commit: string };
+  [key: string]: unknown;
+}
+
+export type ContextCollector = () => unknown | Promise<unknown>;
+
+/**
+ * Which context to collect. Everything is off unless enabled.
+ */
+export interface ContextOptions {
+  node?: boolean;
+  os?: boolean;
+  /**
+   * Versions of the host's dependencies. Pass a list to only include those
+   * packages.
+   */
+  packages?: boolean | string[];
+  /** Defaults to `package.json` in the working directory */
+  packageJsonPath?: string;
+  git?: boolean;
+  model?: { name: string; provider?: string };
+  /** Extra fields, keyed by the name they get in the context */
+  collectors?: Record<string, ContextCollector>;
+}
+
+/**
+ * Collect the enabled context. Collectors that fail are left out rather
+ * than failing the report.
+ */
+export async function collectContext(options: ContextOptions): Promise<RuntimeContext> {
+  const context: RuntimeContext = {};
+
+  if (options.node) {
+    context.node = { version: process.version };
+  }
+
+  if (options.os) {
+    context.os = { platform: os.platform(), release: os.release(), arch: os.arch() };
+  }
+
+  if (options.packages) {
+    const packageJsonPath = options.packageJsonPath || path.join(process.cwd(), 'package.json');
+    const packageInfo = await readPackageInfo(packageJsonPath, Array.isArray(options.packages) ? options.packages : undefined);
+    if (packageInfo) {
+      context.host = packageInfo.host;
+      context.packages = packageInfo.packages;
+    }
+  }
+
+  if (options.model) {
+    context.model = options.model;
+  }
+
+  if (options.git) {
+    const commit = await readGitCommit();
+    if (commit) {
+      context.git = { commit };
+    }
+  }
+
+  for (const [name, collector] of Object.entries(options.collectors || {})) {
+    try {
+      context[name] = await collector();
+    } catch (error) {
+      console.error(`BugBoard context collector "${name}" failed:`, error);
+    }
+  }
+
+  return context;
+}
+
+/**
+ * Host name/version and dependency versions. Installed versions are used
+ * where they can be found, otherwise the declared range.
+ */
+async function readPackageInfo(
+  packageJsonPath: string,
+  only?: string[]
+): Promise<{ host: RuntimeContext['host']; packages: Record<string, string> } | null> {
+  let manifest: { name?: string; version?: string; dependencies?: Record<string, string> };
+  try {
+    manifest = JSON.parse(await fs.readFile(packageJsonPath, 'utf-8'));
+  } catch {
+    return null;
+  }
+
+  const declared = manifest.dependencies || {};
+  const names = only || Object.keys(declared);
+  const packages: Record<string, string> = {};
+
+  for (const name of names) {
+    const installed = await readInstalledVersion(name, path.dirname(packageJsonPath));
+    const version = installed || declared[name];
+    if (version) {
+      packages[name] = version;
+    }
+  }
+
+  return { host: { name: manifest.name, version: manifest.version }, packages };
+}
+
+async function readInstalledVersion(name: string, from: string): Promise<string | undefined> {
+  try {
+    const manifestPath = require.resolve(`${name}/package.json`, { paths: [from] });
+    return JSON.parse(await fs.readFile(manifestPath, 'utf-8')).version;
+  } catch {
+    // Not installed, or the package does not export its package.json
+    return undefined;
+  }
+}
+
+/**
+ * The current commit, from CI variables or `git rev-parse`
+ */
+function readGitCommit(): Promise<string | undefined> {
+  const fromEnv = process.env.GIT_COMMIT || process.env.GITHUB_SHA;
+  if (fromEnv) return Promise.resolve(fromEnv);
+
+  return new Promise((resolve) => {
+    execFile('git', ['rev-parse', 'HEAD'], { timeout: 2000 }, (error, stdout) => {
+      resolve(error ? undefined : stdout.trim() || undefined);
+    });
+  });
+}
@@ -0,0 +1,213 @@
+import { RetryDetectionState } from './types';
+import { jaccard, normalizeOutput, shingle } from './similarity';
+
+/**
+ * Something the agent did that detectors may want to look at
+ */
+export type AgentSignal =
+  | { type: 'output'; output: string; at: number }
+  | { type: 'buildFailure'; at: number }
+  | { type: 'tick'; at: number }
+  | { type: 'event'; name: string; data?: Record<string, unknown>; at: number };
+
+export interface DetectorState extends RetryDetectionState {
+  timeoutMs: number;
+  now: number;
+}
+
+export interface StuckDetection {
+  reason: string;
+  evidence: Record<string, unknown>;
+}
+
+/**
+ * Decides from the agent's recent activity whether it is stuck. Detectors
+ * may keep their own state between calls; `reset` is called after every
+ * report and whenever the agent's retry detection is reset.
+ */
+export interface StuckDetector {
+  name: string;
+  check(signal: AgentSignal, state: DetectorState): StuckDetection | null;
+  reset?(): void;
+}
+
+/**
+ * A detection tagged with the detector that produced it
+ */
+export interface DetectorResult extends StuckDetection {
+  detector: string;
+}
+
+/**
+ * Fires when the same output is produced `count` times in a row
+ */
+export function createRepeatedOutputDetector(options: { count?: number } = {}): StuckDetector {
+  const count = options.count ?? 3;
+
+  return {
+    name: 'repeated-output',
+    check(signal, state) {
+      if (signal.type !== 'output' || state.outputs.length < count) return null;
+
+      const recent = state.outputs.slice(-count);
+      if (!recent.every((output) => output === recent[0])) return null;
+
+      return {
+        reason: 'Agent stuck in output loop',
+        evidence: { repeatedOutput: recent[0], repetitions: count }
+      };
+    }
+  };
+}
+
+export interface SimilarLoopOptions {
+  /** How many recent outputs to keep, independent of the agent's own buffer */
+  windowSize?: number;
+  /** Minimum similarity (0-1) for two outputs to count as the same */
+  threshold?: number;
+  /** Longest cycle to look for, e.g. 2 catches A,B,A,B */
+  maxPeriod?: number;
+  /** How many times the cycle has to repeat */
+  repetitions?: number;
+  shingleSize?: number;
+}
+
+/**
+ * Fires when recent outputs repeat a near-identical cycle. Outputs are
+ * normalized so timestamps, IDs and whitespace don't hide a loop, and
+ * compared with shingle similarity instead of strict equality.
+ */
+export function createSimilarLoopDetector(options: SimilarLoopOptions = {}): StuckDetector {
+  const threshold = options.threshold ?? 0.9;
+  const maxPeriod = options.maxPeriod ?? 4;
+  const repetitions = options.repetitions ?? 3;
+  const shingleSize = options.shingleSize ?? 5;
+  const windowSize = Math.max(options.windowSize ?? 20, maxPeriod * repetitions);
+  let window: { output: string; shingles: Set<string> }[] = [];
+
+  return {
+    name: 'similar-loop',
+    check(signal) {
+      if (signal.type !== 'output') return null;
+
+      window.push({ output: signal.output, shingles: shingle(normalizeOutput(signal.output), shingleSize) });
+      if (window.length > windowSize) {
+        window.shift();
+      }
+
+      // Prefer the shortest cycle so A,A,A,A is reported as period 1, not 2
+      for (let period = 1; period <= maxPeriod; period++) {
+        const span = period * repetitions;
+        if (window.length < span) break;
+
+        const tail = window.slice(-span);
+        let minSimilarity = 1;
+        for (let i = period; i < tail.length; i++) {
+          minSimilarity = Math.min(minSimilarity, jaccard(tail[i].shingles, tail[i - period].shingles));
+          if (minSimilarity < threshold) break;
+        }
+
+        if (minSimilarity >= threshold) {
+          return {
+            reason: period === 1
+              ? 'Agent stuck in near-identical output loop'
+              : `Agent stuck in a ${period}-step output cycle`,
+            evidence: {
+              period,
+              repetitions,
+              similarity: Number(minSimilarity.toFixed(3)),
+              threshold,
+              cycle: tail.slice(-period).map((entry) => entry.output.slice(0, 500))
+            }
+          };
+        }
+      }
+
+      return null;
+    },
+    reset() {
+      window = [];
+    }
+  };
+}
+
+/**
+ * Fires once `threshold` build failures have been tracked
+ */
+export function createBuildFailureDetector(options: { threshold?: number } = {}): StuckDetector {
+  const threshold = options.threshold ?? 3;
+
+  return {
+    name: 'build-failures',
+    check(signal, state) {
+      if (signal.type !== 'buildFailure' || state.buildFailures < threshold) return null;
+
+      return {
+        reason: 'Multiple build failures detected',
+        evidence: { buildFailures: state.buildFailures, threshold }
+      };
+    }
+  };
+}
+
+/**
+ * Fires on a watchdog tick when the agent has been inactive for longer
+ * than its timeout. Only reports once per idle period: the detector stays
+ * latched until the agent shows activity again, and resets don't clear it.
+ */
+export function createTimeoutDetector(): StuckDetector {
+  // The `lastActivity` of the idle period that was last reported
+  let reportedActivity: number | null = null;
+
+  return {
+    name: 'timeout',
+    check(signal, state) {
+      if (signal.type !== 'tick' || state.lastActivity === reportedActivity) return null;
+
+      const idleMs = state.now - state.lastActivity;
+      if (idleMs <= state.timeoutMs) return null;
+
+      reportedActivity = state.lastActivity;
+      return {
+        reason: 'Agent timed out',
+        evidence: { idleMs, timeoutMs: state.timeoutMs, lastActivity: new Date(state.lastActivity).toISOString() }
+      };
+    }
+  };
+}
+
+/**
+ * The detectors every agent starts with unless told otherwise
+ */
+export function createDefaultDetectors(): StuckDetector[] {
+  return [
+    createTimeoutDetector(),
+    createRepeatedOutputDetector(),
+    createSimilarLoopDetector(),
+    createBuildFailureDetector()
+  ];
+}
+
+/**
+ * Run every detector so stateful ones see each signal, and return the first
+ * detection in registration order
+ */
+export function runDetectors(
+  detectors: StuckDetector[],
+  signal: AgentSignal,
+  state: DetectorState
+): DetectorResult | null {
+  let result: DetectorResult | null = null;
+
+  for (const detector of detectors) {
+    try {
+      const detection = detector.check(signal, state);
+      if (detection && !result) {
+        result = { detector: detector.name, ...detection };
+      }
+    } catch (error) {
+      console.error(`BugBoard detector "${detector.name}" failed:`, error);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,37 @@
+import { DetectorResult } from './detectors';
+import { RateLimitReason } from './ratelimit';
+import { BugReportPayload, BugReportResult } from './types';
+
+/**
+ * Emitted before a report is sent. Listeners may change `payload` in place,
+ * e.g. to add metadata, or call `veto` to drop the report.
+ */
+export interface BeforeReportEvent {
+  payload: BugReportPayload;
+  veto(reason?: string): void;
+}
+
+export interface BugBoardAgentEvents {
+  /** A detector decided the agent is stuck; emitted before the auto-report */
+  stuck: [detection: DetectorResult];
+  beforeReport: [event: BeforeReportEvent];
+  reported: [event: { payload: BugReportPayload; result: BugReportResult }];
+  /** A rate limit held the report back; it is counted for the next report */
+  suppressed: [event: { payload: BugReportPayload; reason: RateLimitReason }];
+  /** Delivery failed; `error` is a `ReportQueuedError` when the report was kept for retry */
+  reportFailed: [event: { payload: BugReportPayload; error: unknown }];
+  /** Retry detection state was cleared */
+  reset: [];
+}
+
+export type BugBoardAgentEventName = keyof BugBoardAgentEvents;
+
+/**
+ * Thrown by `reportBug` when a `beforeReport` listener vetoed the report
+ */
+export class ReportVetoedError extends Error {
+  constructor(public reason?: string) {
+    super(reason ? `Report vetoed: ${reason}` : 'Report vetoed');
+    this.name = 'ReportVetoedError';
+  }
+}
@@ -1,33 +1,112 @@
-import { BugBoardAgent } from './index';
+import { BugBoardAgent, StuckDetector, withBugBoard } from './index';
 
 // Create a new BugBoard agent
 const bugboardAgent = new BugBoardAgent({
   agentName: 'ExampleAgent',
-  apiUrl: 'http://localhost:3001/api' // Use your actual API URL in production
+  apiUrl: 'http://localhost:3001/api', // Use your actual API URL in production
+  apiKey: process.env.BUGBOARD_API_KEY, // Issued from the admin's API keys page
+  // Attach environment details so reports are easier to reproduce
+  context: {
+    node: true,
+    os: true,
+    packages: true,
+    git: true,
+    model: { name: 'gpt-4', provider: 'openai' }
+  }
+});
+
+// Custom detector: report when the model API keeps rate limiting us
+let rateLimitHits = 0;
+const rateLimitDetector: StuckDetector = {
+  name: 'rate-limited',
+  check(signal) {
+    if (signal.type !== 'event' || signal.name !== 'http_429') return null;
+    rateLimitHits += 1;
+    return rateLimitHits >= 5
+      ? { reason: 'Agent repeatedly rate limited', evidence: { hits: rateLimitHits, ...signal.data } }
+      : null;
+  },
+  reset() {
+    rateLimitHits = 0;
+  }
+};
+bugboardAgent.registerDetector(rateLimitDetector);
+
+// Hook into the report lifecycle: tag reports and skip them in local runs
+bugboardAgent.on('stuck', ({ detector, reason }) => {
+  console.warn(`Agent looks stuck (${detector}): ${reason}`);
 });
+bugboardAgent.on('beforeReport', ({ payload, veto }) => {
+  if (process.env.BUGBOARD_DISABLED) {
+    veto('BUGBOARD_DISABLED is set');
+    return;
+  }
+  payload.input = `[${process.env.NODE_ENV || 'development'}] ${payload.input}`;
+});
+
+// Wrap each agent step once; calls are timed, outputs are checked for
+// loops and repeated errors are reported automatically
+const generateCode = withBugBoard(bugboardAgent, async (prompt: string) => {
+  // Simulate a call to the model
+  return `// Code for: ${prompt}`;
+}, { name: 'generate-code' });
+
+const runBuild = withBugBoard(bugboardAgent, async (code: string) => {
+  // Simulate a build that fails
+  throw new SyntaxError(`Unexpected token in ${code.length} characters of code`);
+}, { name: 'build' });
+
+// How long to wait for a reported bug to be fixed
+const RESOLUTION_TIMEOUT_MS = 10 * 60 * 1000;
 
 // Example function that might fail
 async function runAgentTask() {
   try {
-    // Simulate some agent work
+    // Watch for the agent going quiet for longer than the timeout
+    bugboardAgent.start();
+
     console.log('Agent starting task...');
-    
-    // Track outputs to detect loops
-    bugboardAgent.trackOutput('Processing user request');
-    
-    // Simulate a build failure
-    bugboardAgent.trackBuildFailure();
-    
+    const code = await generateCode('How do I implement a neural network?');
+
+    // Feed signals to custom detectors
+    bugboardAgent.trackEvent('http_429', { endpoint: '/v1/chat/completions' });
+
+    await runBuild(code);
+  } catch (error) {
+    console.error('Error in agent task:', error);
+
     // Manually report a bug if needed
     await bugboardAgent.reportBug({
       input: 'User asked: "How do I implement a neural network?"',
       logs: 'Agent attempted to generate code but failed with syntax error',
-      error: 'SyntaxError: Unexpected token'
-    });
-    
-    console.log('Bug reported successfully');
-  } catch (error) {
-    console.error('Error in agent task:', error);
+      error: error instanceof Error ? error.message : String(error),
+      trace: bugboardAgent.trace.toJSON()
+    })
+      .then(async ({ id, url }) => {
+        console.log(`Bug reported successfully: ${url}`);
+
+        // Pick up the community's fix once it lands. Closing the agent
+        // cancels the subscription, so stay open until the fix arrives or
+        // we stop waiting.
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(() => {
+            console.log(`Bug ${id} is still open, giving up on the fix`);
+            unsubscribe();
+            resolve();
+          }, RESOLUTION_TIMEOUT_MS);
+
+          const unsubscribe = bugboardAgent.onResolved(id, ({ fixUrl, fixExplanation }) => {
+            console.log(`Bug ${id} was fixed: ${fixUrl}\n${fixExplanation || ''}`);
+            clearTimeout(timer);
+            resolve();
+          });
+        });
+      })
+      .catch(() => console.log('Bug report queued in the outbox'));
+  } finally {
+    // Deliver anything still sitting in the outbox before shutting down
+    await bugboardAgent.flush();
+    bugboardAgent.close();
   }
 }
 
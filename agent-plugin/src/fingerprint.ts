@@ -0,0 +1,54 @@
+import crypto from 'crypto';
+import { normalizeOutput } from './similarity';
+
+export interface FingerprintInput {
+  agentName: string;
+  /** Error message, optionally followed by a stack trace */
+  error?: string;
+  /** Used instead of the error when there is none */
+  input?: string;
+}
+
+const STACK_FRAME = /^\s*at\s+(?:(.+?)\s+\()?(.+?)(?::\d+){0,2}\)?\s*$/;
+
+/**
+ * The first `count` stack frames, without line/column numbers or
+ * directories so the same crash matches across builds and machines
+ */
+export function topStackFrames(stack: string, count: number = 3): string[] {
+  const frames: string[] = [];
+
+  for (const line of stack.split('\n')) {
+    const match = line.match(STACK_FRAME);
+    if (!match) continue;
+
+    const [, fn, location] = match;
+    const file = location.split(/[\\/]/).pop();
+    frames.push(fn ? `${fn} (${file})` : `${file}`);
+    if (frames.length >= count) break;
+  }
+
+  return frames;
+}
+
+/**
+ * The error message with volatile details masked
+ */
+export function normalizeErrorMessage(error: string): string {
+  const message = error.split('\n').find((line) => line.trim() && !STACK_FRAME.test(line)) || '';
+  return normalizeOutput(message);
+}
+
+/**
+ * Stable identifier for "the same bug": the normalized error message, the
+ * top stack frames and the agent name. The backend computes the same thing
+ * for reports without a fingerprint; when this changes, regenerate
+ * `__tests__/fixtures/fingerprints.json`, which both test suites check.
+ */
+export function computeFingerprint({ agentName, error, input }: FingerprintInput): string {
+  const parts = error
+    ? [agentName, normalizeErrorMessage(error), ...topStackFrames(error)]
+    : [agentName, normalizeOutput((input || '').split('\n')[0])];
+
+  return crypto.createHash('sha256').update(parts.join('\n')).digest('hex').slice(0, 32);
+}
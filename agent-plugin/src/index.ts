@@ -1,24 +1,63 @@
 import axios from 'axios';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { Outbox, FlushResult, ReportQueuedError } from './outbox';
+import { Redactor, RedactionResult } from './redaction';
+import { TraceRecorder, formatTrace } from './trace';
+import { ContextOptions, RuntimeContext, collectContext } from './context';
+import { computeFingerprint } from './fingerprint';
+import { Resolution, WaitForResolutionOptions, pollForResolution } from './resolution';
+import { BugBoardAgentEvents, ReportVetoedError } from './events';
+import { DEFAULT_API_URL, HttpTransport, Transport, bugPageUrl } from './transport';
+import { LogOptions, truncateLogs } from './logs';
+import { encodeAttachments } from './attachments';
+import { fitPayload } from './payload';
+import { ReportRateLimiter, ReportRateLimitedError, formatSuppressedSummary } from './ratelimit';
+import {
+  AgentSignal,
+  DetectorResult,
+  StuckDetector,
+  createDefaultDetectors,
+  runDetectors
+} from './detectors';
+import {
+  BugReportOptions,
+  BugData,
+  BugReportPayload,
+  BugReportResult,
+  BugRecord,
+  ReportOptions,
+  RetryDetectionState
+} from './types';
 
-export interface BugReportOptions {
-  apiUrl?: string;
-  agentName: string;
-}
-
-export interface BugData {
-  input: string;
-  logs: string;
-  error?: string;
-}
+export * from './types';
+export { Outbox, OutboxOptions, OutboxEntry, FlushResult, ReportQueuedError, computeBackoff } from './outbox';
+export * from './detectors';
+export { normalizeOutput, outputSimilarity } from './similarity';
+export * from './redaction';
+export * from './trace';
+export { BugBoardCallbackHandler, BugBoardCallbackHandlerOptions } from './langchain';
+export { withBugBoard, WithBugBoardOptions, BugBoardStep } from './wrap';
+export * from './context';
+export * from './fingerprint';
+export { Resolution, WaitForResolutionOptions, ResolutionTimeoutError } from './resolution';
+export * from './events';
+export * from './ratelimit';
+export * from './transport';
+export { LogOptions, truncateLogs, chunkText } from './logs';
+export * from './attachments';
+export { DEFAULT_MAX_PAYLOAD_BYTES, fitPayload } from './payload';
 
-export interface RetryDetectionState {
-  outputs: string[];
-  buildFailures: number;
-  lastActivity: number;
+interface RecentReport {
+  at: number;
+  occurrences: number;
+  result: Promise<BugReportResult>;
 }
 
-export class BugBoardAgent {
+export class BugBoardAgent extends EventEmitter {
   private apiUrl: string;
+  private transport: Transport;
+  private logOptions: LogOptions;
   private agentName: string;
   private retryState: RetryDetectionState = {
     outputs: [],
@@ -26,49 +65,410 @@ export class BugBoardAgent {
     lastActivity: Date.now()
   };
   private timeoutMs: number = 300000; // 5 minutes default timeout
+  private watchdogIntervalMs?: number;
+  private watchdog: NodeJS.Timeout | null = null;
+  private outbox: Outbox | null = null;
+  private detectors: StuckDetector[];
+  private redactor: Redactor | null = null;
+  private logSources = new Map<string, () => string>();
+  private contextOptions?: ContextOptions;
+  private collectedContext: Promise<RuntimeContext> | null = null;
+  private dedupeWindowMs: number;
+  private recentReports = new Map<string, RecentReport>();
+  private rateLimiter: ReportRateLimiter | null = null;
+  private rateLimitManualReports = false;
+  private resolutionSubscriptions = new Set<AbortController>();
+
+  private parentSpanId?: string;
+
+  /**
+   * Steps recorded for this run, attached to auto-reports
+   */
+  readonly trace: TraceRecorder;
+
+  /** Sent with every report so reports from one run can be linked */
+  readonly runId: string;
+  readonly sessionId?: string;
 
   constructor(options: BugReportOptions) {
-    this.apiUrl = options.apiUrl || 'https://bugboard.ai/api';
+    super();
+    this.apiUrl = options.apiUrl || DEFAULT_API_URL;
+    this.logOptions = options.logs || {};
+    this.transport = options.transport || new HttpTransport({
+      apiUrl: this.apiUrl,
+      apiKey: options.apiKey,
+      compress: this.logOptions.compress,
+      chunkSizeBytes: this.logOptions.chunkSizeBytes
+    });
     this.agentName = options.agentName;
+    this.runId = options.runId || crypto.randomUUID();
+    this.sessionId = options.sessionId;
+    this.detectors = options.detectors ? [...options.detectors] : createDefaultDetectors();
+    this.watchdogIntervalMs = options.watchdogIntervalMs;
+    this.trace = new TraceRecorder(options.maxTraceSteps);
+    this.contextOptions = options.context;
+    this.dedupeWindowMs = options.dedupe === false ? 0 : options.dedupe?.windowMs ?? 10 * 60 * 1000;
+    if (options.rateLimit !== false) {
+      this.rateLimiter = new ReportRateLimiter(options.rateLimit);
+      this.rateLimitManualReports = options.rateLimit !== undefined;
+    }
+    if (options.redaction !== false) {
+      this.redactor = new Redactor(options.redaction);
+    }
+    if (options.timeoutMs !== undefined) {
+      this.timeoutMs = options.timeoutMs;
+    }
+
+    if (options.outbox !== false) {
+      this.outbox = new Outbox((payload) => this.transport.send(payload), options.outbox);
+    }
+  }
+
+  on<K extends keyof BugBoardAgentEvents>(event: K, listener: (...args: BugBoardAgentEvents[K]) => void): this {
+    return super.on(event, listener as (...args: any[]) => void);
+  }
+
+  once<K extends keyof BugBoardAgentEvents>(event: K, listener: (...args: BugBoardAgentEvents[K]) => void): this {
+    return super.once(event, listener as (...args: any[]) => void);
+  }
+
+  off<K extends keyof BugBoardAgentEvents>(event: K, listener: (...args: BugBoardAgentEvents[K]) => void): this {
+    return super.off(event, listener as (...args: any[]) => void);
+  }
+
+  emit<K extends keyof BugBoardAgentEvents>(event: K, ...args: BugBoardAgentEvents[K]): boolean {
+    return super.emit(event, ...args);
   }
 
   /**
-   * Manually report a bug to BugBoard AI
+   * Manually report a bug to BugBoard AI. If delivery fails the report is
+   * kept in the outbox, retried in the background and `ReportQueuedError`
+   * is thrown. Throws `ReportRateLimitedError` when a rate limit holds the
+   * report back; manual reports are only limited when `rateLimit` is
+   * configured.
    */
-  async reportBug(data: BugData): Promise<{ id: string; url: string }> {
-    try {
-      const response = await axios.post(`${this.apiUrl}/bugs`, {
+  async reportBug(data: BugData, options: ReportOptions = {}): Promise<BugReportResult> {
+    const { payload } = await this.buildReport(data);
+
+    let vetoReason: string | undefined;
+    let vetoed = false;
+    this.emit('beforeReport', {
+      payload,
+      veto: (reason?: string) => {
+        vetoed = true;
+        vetoReason = reason;
+      }
+    });
+    if (vetoed) {
+      throw new ReportVetoedError(vetoReason);
+    }
+
+    // A crash loop produces the same bug over and over; report it once
+    // per dedupe window and hand back the original result
+    const recent = this.findRecentReport(payload.fingerprint);
+    if (recent) {
+      recent.occurrences += 1;
+      const result = { ...(await recent.result), duplicate: true };
+      this.emit('reported', { payload, result });
+      return result;
+    }
+
+    if (this.rateLimiter) {
+      if (options.automatic || this.rateLimitManualReports) {
+        const limited = this.rateLimiter.check(payload.fingerprint);
+        if (limited) {
+          this.rateLimiter.suppress(payload);
+          this.emit('suppressed', { payload, reason: limited });
+          throw new ReportRateLimitedError(limited);
+        }
+        this.rateLimiter.record(payload.fingerprint);
+      }
+
+      const suppressed = this.rateLimiter.takeSuppressed();
+      if (suppressed) {
+        payload.suppressed = suppressed;
+        payload.logs += `\n\n--- Occurrences suppressed ---\n\n${formatSuppressedSummary(suppressed)}`;
+      }
+    }
+
+    const result = this.deliver(this.fitReport(payload));
+    if (this.dedupeWindowMs > 0) {
+      this.recentReports.set(payload.fingerprint, { at: Date.now(), occurrences: 1, result });
+      // A queued report will still arrive, so repeats stay deduped
+      result.catch((error) => {
+        if (!(error instanceof ReportQueuedError)) {
+          this.recentReports.delete(payload.fingerprint);
+        }
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Fetch a bug's current state
+   */
+  async getBug(id: string): Promise<BugRecord> {
+    const response = await axios.get(`${this.apiUrl}/bugs/${encodeURIComponent(id)}`);
+    return response.data;
+  }
+
+  /**
+   * Wait until a bug is resolved (or marked won't fix) and get the fix
+   */
+  waitForResolution(id: string, options: WaitForResolutionOptions = {}): Promise<Resolution> {
+    return pollForResolution((bugId) => this.getBug(bugId), id, options);
+  }
+
+  /**
+   * Call `listener` once a bug is resolved, polling in the background.
+   * Returns a function that cancels the subscription.
+   */
+  onResolved(
+    id: string,
+    listener: (resolution: Resolution) => void,
+    options: Omit<WaitForResolutionOptions, 'signal'> = {}
+  ): () => void {
+    const controller = new AbortController();
+    this.resolutionSubscriptions.add(controller);
+
+    this.waitForResolution(id, { keepAlive: false, ...options, signal: controller.signal })
+      .then(listener)
+      .catch((error) => {
+        if (!controller.signal.aborted) {
+          console.error(`Stopped waiting for resolution of bug ${id}:`, error);
+        }
+      })
+      .finally(() => this.resolutionSubscriptions.delete(controller));
+
+    return () => controller.abort();
+  }
+
+  /**
+   * URL of a bug's page on the board
+   */
+  getBugUrl(id: string): string {
+    return bugPageUrl(this.apiUrl, id);
+  }
+
+  /**
+   * Build the payload `reportBug` would send, without sending it. The
+   * result lists every redaction that was applied.
+   */
+  async previewReport(data: BugData): Promise<RedactionResult<BugReportPayload>> {
+    const { payload, redactions } = await this.buildReport(data);
+    return { payload: this.fitReport(payload), redactions };
+  }
+
+  /**
+   * The redacted payload for a report, before it is cut down to size
+   */
+  private async buildReport(data: BugData): Promise<RedactionResult<BugReportPayload>> {
+    // The context carries environment details and the working directory,
+    // so it is redacted along with the rest
+    const context = await this.getContext(data.context);
+    const fields = {
+      input: data.input,
+      logs: data.logs || (data.trace ? formatTrace(data.trace) : ''),
+      error: data.error,
+      trace: data.trace,
+      ...(context ? { context } : {})
+    };
+    const encoded = data.attachments?.length ? await encodeAttachments(data.attachments) : [];
+    const { payload: redacted, redactions } = this.redactor
+      ? this.redactor.redact(fields)
+      : { payload: fields, redactions: [] };
+    const { payload: attachments, redactions: attachmentRedactions } = this.redactor
+      ? this.redactor.redactAttachments(encoded)
+      : { payload: encoded, redactions: [] };
+    const parentSpanId = data.parentSpanId || this.parentSpanId;
+    const fingerprint = data.fingerprint || computeFingerprint({
+      agentName: this.agentName,
+      error: redacted.error,
+      input: redacted.input
+    });
+
+    return {
+      payload: {
         agentName: this.agentName,
-        input: data.input,
-        logs: data.logs,
-        error: data.error,
+        ...redacted,
+        fingerprint,
+        runId: this.runId,
+        ...(this.sessionId ? { sessionId: this.sessionId } : {}),
+        spanId: crypto.randomBytes(8).toString('hex'),
+        ...(parentSpanId ? { parentSpanId } : {}),
+        ...(attachments.length > 0 ? { attachments } : {}),
         timestamp: new Date().toISOString()
-      });
-      
-      return {
-        id: response.data.id,
-        url: `${this.apiUrl.replace('/api', '')}/bugs/${response.data.id}`
-      };
+      },
+      redactions: [...redactions, ...attachmentRedactions]
+    };
+  }
+
+  /**
+   * Cut the logs down to `logs.maxBytes`, then the whole report down to
+   * `logs.maxPayloadBytes`. Logs the transport uploads in chunks aren't
+   * part of the report body, so they are left out of the latter.
+   */
+  private fitReport(payload: BugReportPayload): BugReportPayload {
+    const { maxBytes, headRatio, maxPayloadBytes } = this.logOptions;
+    const { logs, originalBytes } = truncateLogs(payload.logs, maxBytes, headRatio);
+    const chunkLogsOverBytes = this.transport.chunkLogsOverBytes;
+
+    if (chunkLogsOverBytes !== undefined && Buffer.byteLength(logs, 'utf-8') > chunkLogsOverBytes) {
+      const fitted = fitPayload({ ...payload, logs: '', logsSize: originalBytes }, maxPayloadBytes, headRatio);
+      return { ...fitted, logs };
+    }
+    return fitPayload({ ...payload, logs, logsSize: originalBytes }, maxPayloadBytes, headRatio);
+  }
+
+  private async deliver(payload: BugReportPayload): Promise<BugReportResult> {
+    try {
+      const result = this.outbox
+        ? await this.outbox.deliver(payload)
+        : await this.transport.send(payload);
+      this.emit('reported', { payload, result });
+      return result;
     } catch (error) {
       console.error('Failed to report bug to BugBoard AI:', error);
+      this.emit('reportFailed', { payload, error });
       throw error;
     }
   }
 
   /**
-   * Track agent output to detect repetitive patterns
+   * A report with the same fingerprint sent within the dedupe window
+   */
+  private findRecentReport(fingerprint: string): RecentReport | undefined {
+    const now = Date.now();
+    this.recentReports.forEach((report, key) => {
+      if (now - report.at >= this.dedupeWindowMs) {
+        this.recentReports.delete(key);
+      }
+    });
+    return this.recentReports.get(fingerprint);
+  }
+
+  /**
+   * Runtime context for a report: the collected environment, which is only
+   * gathered once per agent, merged with any per-report context
+   */
+  private async getContext(extra?: RuntimeContext): Promise<RuntimeContext | undefined> {
+    if (!this.contextOptions) return extra;
+
+    if (!this.collectedContext) {
+      this.collectedContext = collectContext(this.contextOptions);
+    }
+    return { ...(await this.collectedContext), ...extra };
+  }
+
+  /**
+   * Try to deliver every report still waiting in the outbox
+   */
+  async flush(): Promise<FlushResult> {
+    if (!this.outbox) {
+      return { sent: 0, failed: 0, dropped: 0 };
+    }
+    return this.outbox.flush();
+  }
+
+  /**
+   * Number of reports waiting in the outbox
+   */
+  async pendingCount(): Promise<number> {
+    return this.outbox ? this.outbox.pendingCount() : 0;
+  }
+
+  /**
+   * Stop background work: the watchdog, resolution polling and outbox
+   * retries. Queued reports stay on disk and are picked up by the next
+   * agent that uses the same outbox directory.
+   */
+  close(): void {
+    this.stop();
+    this.resolutionSubscriptions.forEach((controller) => controller.abort());
+    this.outbox?.close();
+    this.transport.close?.();
+  }
+
+  /**
+   * Start the inactivity watchdog. A report is filed when nothing is
+   * tracked and no heartbeat arrives within the timeout.
+   */
+  start(): void {
+    if (this.watchdog) return;
+
+    this.retryState.lastActivity = Date.now();
+    this.scheduleWatchdog();
+  }
+
+  /**
+   * Stop the inactivity watchdog
+   */
+  stop(): void {
+    if (this.watchdog) {
+      clearInterval(this.watchdog);
+      this.watchdog = null;
+    }
+  }
+
+  /**
+   * Whether the watchdog is running
+   */
+  isRunning(): boolean {
+    return this.watchdog !== null;
+  }
+
+  /**
+   * Signal that the agent is still making progress without tracking output
+   */
+  heartbeat(): void {
+    this.retryState.lastActivity = Date.now();
+  }
+
+  /**
+   * Register a custom stuck detector. Detectors run in registration order
+   * and the first one to fire files the report.
    */
-  trackOutput(output: string): void {
+  registerDetector(detector: StuckDetector): void {
+    this.detectors.push(detector);
+  }
+
+  /**
+   * Remove a detector by name
+   */
+  unregisterDetector(name: string): void {
+    this.detectors = this.detectors.filter((detector) => detector.name !== name);
+  }
+
+  /**
+   * Add a named section to the logs of auto-reports, e.g. a framework's
+   * run tree. Returns a function that removes it again.
+   */
+  registerLogSource(name: string, source: () => string): () => void {
+    this.logSources.set(name, source);
+    return () => {
+      this.logSources.delete(name);
+    };
+  }
+
+  /**
+   * Track agent output to detect repetitive patterns. `details` are added
+   * to the output's trace step; pass `trace: false` when the output is
+   * already in the trace, e.g. as the result of a model step.
+   */
+  trackOutput(output: string, details: { name?: string; input?: unknown; durationMs?: number; trace?: boolean } = {}): void {
+    const { trace = true, ...step } = details;
     this.retryState.outputs.push(output);
     this.retryState.lastActivity = Date.now();
+    if (trace) {
+      this.trace.recordStep({ type: 'output', output, ...step });
+    }
     
     // Keep only the last 5 outputs
     if (this.retryState.outputs.length > 5) {
       this.retryState.outputs.shift();
     }
     
-    // Check for repetitive patterns
-    this.checkForStuckAgent();
+    this.checkForStuckAgent({ type: 'output', output, at: Date.now() });
   }
 
   /**
@@ -77,22 +477,42 @@ export class BugBoardAgent {
   trackBuildFailure(): void {
     this.retryState.buildFailures += 1;
     this.retryState.lastActivity = Date.now();
+    this.trace.recordStep({ type: 'error', name: 'build', error: 'Build failed' });
     
-    // Check if we've hit the threshold
-    if (this.retryState.buildFailures >= 3) {
-      this.autoReportBug('Multiple build failures detected');
-    }
+    this.checkForStuckAgent({ type: 'buildFailure', at: Date.now() });
   }
 
   /**
-   * Reset the retry detection state
+   * Track an arbitrary event (an HTTP 429, token usage, a tool call, ...)
+   * for custom detectors to inspect
+   */
+  trackEvent(name: string, data?: Record<string, unknown>): void {
+    this.retryState.lastActivity = Date.now();
+
+    this.checkForStuckAgent({ type: 'event', name, data, at: Date.now() });
+  }
+
+  /**
+   * Reset the retry detection state. The time of the last activity is
+   * kept, so an agent that stays idle is not reported again.
    */
   resetRetryDetection(): void {
     this.retryState = {
       outputs: [],
       buildFailures: 0,
-      lastActivity: Date.now()
+      lastActivity: this.retryState.lastActivity
     };
+    this.trace.reset();
+    this.detectors.forEach((detector) => detector.reset?.());
+    this.emit('reset');
+  }
+
+  /**
+   * The span reports are filed under from now on, e.g. the current
+   * OpenTelemetry span. Pass nothing to clear it.
+   */
+  setParentSpan(spanId?: string): void {
+    this.parentSpanId = spanId;
   }
 
   /**
@@ -100,46 +520,77 @@ export class BugBoardAgent {
    */
   setTimeout(timeoutMs: number): void {
     this.timeoutMs = timeoutMs;
+
+    // Pick up the new check interval
+    if (this.watchdog) {
+      this.stop();
+      this.scheduleWatchdog();
+    }
+  }
+
+  private scheduleWatchdog(): void {
+    const intervalMs = this.watchdogIntervalMs ?? Math.min(Math.max(this.timeoutMs / 10, 1000), 30000);
+    this.watchdog = setInterval(() => {
+      this.checkForStuckAgent({ type: 'tick', at: Date.now() });
+    }, intervalMs);
+
+    // The watchdog should never keep the host process alive
+    this.watchdog.unref();
   }
 
   /**
-   * Check if the agent is stuck in a loop or has timed out
+   * Run the registered detectors and report if any of them fires
    */
-  private checkForStuckAgent(): void {
-    // Check for timeout
-    const timeSinceLastActivity = Date.now() - this.retryState.lastActivity;
-    if (timeSinceLastActivity > this.timeoutMs) {
-      this.autoReportBug('Agent timed out');
-      return;
-    }
-    
-    // Check for repetitive outputs (3+ same outputs in a row)
-    const outputs = this.retryState.outputs;
-    if (outputs.length >= 3) {
-      const lastThree = outputs.slice(-3);
-      if (lastThree[0] === lastThree[1] && lastThree[1] === lastThree[2]) {
-        this.autoReportBug('Agent stuck in output loop');
-      }
+  private checkForStuckAgent(signal: AgentSignal): void {
+    const detection = runDetectors(this.detectors, signal, {
+      ...this.retryState,
+      timeoutMs: this.timeoutMs,
+      now: Date.now()
+    });
+
+    if (detection) {
+      this.emit('stuck', detection);
+      this.autoReportBug(detection);
     }
   }
 
   /**
    * Automatically report a bug when stuck detection triggers
    */
-  private async autoReportBug(reason: string): Promise<void> {
-    const logs = this.retryState.outputs.join('\n\n--- Next Output ---\n\n');
+  private async autoReportBug(detection: DetectorResult): Promise<void> {
+    const outputs = this.retryState.outputs.join('\n\n--- Next Output ---\n\n');
+    const evidence = JSON.stringify({ detector: detection.detector, ...detection.evidence }, null, 2);
+    let logs = `${outputs}\n\n--- Evidence ---\n\n${evidence}`;
+
+    this.logSources.forEach((source, name) => {
+      try {
+        logs += `\n\n--- ${name} ---\n\n${source()}`;
+      } catch (error) {
+        console.error(`BugBoard log source "${name}" failed:`, error);
+      }
+    });
     
     try {
       await this.reportBug({
         input: 'Auto-detected issue',
         logs: logs,
-        error: `Auto-reported: ${reason}. Build failures: ${this.retryState.buildFailures}`
-      });
+        error: `Auto-reported: ${detection.reason}. Build failures: ${this.retryState.buildFailures}`,
+        trace: this.trace.isEmpty() ? undefined : this.trace.toJSON()
+      }, { automatic: true });
       
       // Reset after reporting
       this.resetRetryDetection();
     } catch (error) {
-      console.error('Failed to auto-report bug:', error);
+      if (
+        error instanceof ReportQueuedError ||
+        error instanceof ReportRateLimitedError ||
+        error instanceof ReportVetoedError
+      ) {
+        // Start counting afresh so the next occurrence is a new detection
+        this.resetRetryDetection();
+      } else {
+        console.error('Failed to auto-report bug:', error);
+      }
     }
   }
 }
@@ -150,10 +601,14 @@ export default function createBugBoardAgent(options: BugReportOptions): BugBoard
 }
 
 // Export the reportBug function for direct use
-export function reportBug(
+export async function reportBug(
   data: BugData, 
   options: BugReportOptions
-): Promise<{ id: string; url: string }> {
+): Promise<BugReportResult> {
   const agent = new BugBoardAgent(options);
-  return agent.reportBug(data);
+  try {
+    return await agent.reportBug(data);
+  } finally {
+    agent.close();
+  }
 }
@@ -0,0 +1,253 @@
+import type { BugBoardAgent } from './index';
+import { ReportVetoedError } from './events';
+import { ReportRateLimitedError } from './ratelimit';
+import { TokenUsage, TraceStepHandle } from './trace';
+
+/**
+ * The parts of LangChain's types the handler relies on. They are declared
+ * here so the plugin does not depend on `@langchain/core`; LangChain accepts
+ * any object with the `handle*` methods as a callback handler.
+ */
+interface SerializedRunnable {
+  id?: string[];
+  name?: string;
+}
+
+interface LLMResult {
+  generations: { text: string }[][];
+  llmOutput?: Record<string, unknown>;
+}
+
+interface AgentAction {
+  tool: string;
+  toolInput: unknown;
+  log: string;
+}
+
+export interface BugBoardCallbackHandlerOptions {
+  /** File a report when a top-level chain throws, defaults to true */
+  reportOnChainError?: boolean;
+  /** Longest input/output kept per run in the captured run tree */
+  maxValueLength?: number;
+  /** Number of top-level runs kept in the run tree, defaults to 20 */
+  maxRootRuns?: number;
+}
+
+interface RunNode {
+  id: string;
+  parentId?: string;
+  type: 'chain' | 'llm' | 'tool';
+  name: string;
+  startedAt: number;
+  durationMs?: number;
+  inputs?: unknown;
+  outputs?: unknown;
+  error?: string;
+  children: RunNode[];
+  step?: TraceStepHandle;
+}
+
+/**
+ * LangChain.js callback handler that feeds LLM, tool and chain events into
+ * a `BugBoardAgent`. Model outputs go through the agent's stuck detectors,
+ * the run tree is attached to auto-reports as logs, and errors thrown by a
+ * top-level chain are reported directly.
+ *
+ *   const handler = new BugBoardCallbackHandler(agent);
+ *   await chain.invoke(input, { callbacks: [handler] });
+ */
+export class BugBoardCallbackHandler {
+  name = 'BugBoardCallbackHandler';
+
+  private runs = new Map<string, RunNode>();
+  private roots: RunNode[] = [];
+  private reportOnChainError: boolean;
+  private maxValueLength: number;
+  private maxRootRuns: number;
+  private unregisterLogSource: () => void;
+
+  constructor(private agent: BugBoardAgent, options: BugBoardCallbackHandlerOptions = {}) {
+    this.reportOnChainError = options.reportOnChainError ?? true;
+    this.maxValueLength = options.maxValueLength ?? 2000;
+    this.maxRootRuns = options.maxRootRuns ?? 20;
+    this.unregisterLogSource = agent.registerLogSource('LangChain run tree', () => this.renderRunTree());
+  }
+
+  handleChainStart(chain: SerializedRunnable, inputs: unknown, runId: string, parentRunId?: string, _tags?: string[], _metadata?: Record<string, unknown>, _runType?: string, runName?: string): void {
+    this.startRun(runId, parentRunId, 'chain', runName || runnableName(chain), inputs);
+    this.agent.heartbeat();
+  }
+
+  handleChainEnd(outputs: unknown, runId: string): void {
+    this.endRun(runId, { outputs });
+    this.agent.heartbeat();
+  }
+
+  async handleChainError(err: Error, runId: string, parentRunId?: string): Promise<void> {
+    const run = this.endRun(runId, { error: err.message });
+    this.agent.trackEvent('langchain_chain_error', { name: run?.name, message: err.message });
+
+    // Nested chain errors bubble up to the root, so only report once there
+    if (!this.reportOnChainError || parentRunId || !run) return;
+
+    try {
+      await this.agent.reportBug({
+        input: this.truncate(run.inputs) || `LangChain chain "${run.name}"`,
+        logs: this.renderRunTree(),
+        error: err.stack || err.message,
+        trace: this.agent.trace.toJSON()
+      }, { automatic: true });
+    } catch (error) {
+      if (error instanceof ReportVetoedError || error instanceof ReportRateLimitedError) return;
+      console.error('Failed to report LangChain chain error:', error);
+    }
+  }
+
+  handleLLMStart(llm: SerializedRunnable, prompts: string[], runId: string, parentRunId?: string, _extraParams?: Record<string, unknown>, _tags?: string[], _metadata?: Record<string, unknown>, runName?: string): void {
+    const run = this.startRun(runId, parentRunId, 'llm', runName || runnableName(llm), prompts);
+    run.step = this.agent.trace.startStep('model', run.name, prompts);
+    this.agent.heartbeat();
+  }
+
+  handleChatModelStart(llm: SerializedRunnable, messages: unknown[][], runId: string, parentRunId?: string, _extraParams?: Record<string, unknown>, _tags?: string[], _metadata?: Record<string, unknown>, runName?: string): void {
+    const run = this.startRun(runId, parentRunId, 'llm', runName || runnableName(llm), messages);
+    run.step = this.agent.trace.startStep('model', run.name, messages);
+    this.agent.heartbeat();
+  }
+
+  handleLLMEnd(output: LLMResult, runId: string): void {
+    const text = ([] as { text: string }[]).concat(...output.generations).map((generation) => generation.text).join('\n');
+    const run = this.endRun(runId, { outputs: text });
+
+    run?.step?.end({
+      response: {
+        model: run.name,
+        content: text,
+        usage: readTokenUsage(output.llmOutput?.tokenUsage)
+      }
+    });
+    // The model step above already holds the output
+    this.agent.trackOutput(text, { trace: !run?.step });
+  }
+
+  handleLLMError(err: Error, runId: string): void {
+    const run = this.endRun(runId, { error: err.message });
+    run?.step?.end({ error: err.message });
+    this.agent.trackEvent('langchain_llm_error', { name: run?.name, message: err.message });
+  }
+
+  handleToolStart(tool: SerializedRunnable, input: string, runId: string, parentRunId?: string, _tags?: string[], _metadata?: Record<string, unknown>, runName?: string): void {
+    const run = this.startRun(runId, parentRunId, 'tool', runName || runnableName(tool), input);
+    run.step = this.agent.trace.startStep('tool', run.name, input);
+    this.agent.heartbeat();
+  }
+
+  handleToolEnd(output: unknown, runId: string): void {
+    const run = this.endRun(runId, { outputs: output });
+    run?.step?.end({ output });
+    this.agent.trackEvent('langchain_tool_end', { name: run?.name });
+  }
+
+  handleToolError(err: Error, runId: string): void {
+    const run = this.endRun(runId, { error: err.message });
+    run?.step?.end({ error: err.message });
+    this.agent.trackEvent('langchain_tool_error', { name: run?.name, message: err.message });
+  }
+
+  handleAgentAction(action: AgentAction): void {
+    this.agent.trackEvent('langchain_agent_action', { tool: action.tool, toolInput: action.toolInput });
+  }
+
+  /**
+   * Plain-text rendering of every run seen so far, nested by parent
+   */
+  renderRunTree(): string {
+    const lines: string[] = [];
+
+    const render = (run: RunNode, depth: number) => {
+      const indent = '  '.repeat(depth);
+      const duration = run.durationMs !== undefined ? ` (${run.durationMs}ms)` : ' (running)';
+      lines.push(`${indent}[${run.type}] ${run.name}${duration}`);
+      if (run.inputs !== undefined) lines.push(`${indent}  input: ${this.truncate(run.inputs)}`);
+      if (run.outputs !== undefined) lines.push(`${indent}  output: ${this.truncate(run.outputs)}`);
+      if (run.error) lines.push(`${indent}  error: ${run.error}`);
+      run.children.forEach((child) => render(child, depth + 1));
+    };
+
+    this.roots.forEach((root) => render(root, 0));
+    return lines.join('\n');
+  }
+
+  /**
+   * Forget captured runs, e.g. between independent invocations
+   */
+  reset(): void {
+    this.runs.clear();
+    this.roots = [];
+  }
+
+  /**
+   * Detach the run tree from the agent's auto-reports
+   */
+  dispose(): void {
+    this.unregisterLogSource();
+    this.reset();
+  }
+
+  private startRun(id: string, parentId: string | undefined, type: RunNode['type'], name: string, inputs: unknown): RunNode {
+    const run: RunNode = { id, parentId, type, name, startedAt: Date.now(), inputs, children: [] };
+    this.runs.set(id, run);
+
+    const parent = parentId ? this.runs.get(parentId) : undefined;
+    if (parent) {
+      parent.children.push(run);
+    } else {
+      this.roots.push(run);
+      if (this.roots.length > this.maxRootRuns) {
+        this.forget(this.roots.shift() as RunNode);
+      }
+    }
+    return run;
+  }
+
+  private forget(run: RunNode): void {
+    this.runs.delete(run.id);
+    run.children.forEach((child) => this.forget(child));
+  }
+
+  private endRun(id: string, result: { outputs?: unknown; error?: string }): RunNode | undefined {
+    const run = this.runs.get(id);
+    if (!run) return undefined;
+
+    run.durationMs = Date.now() - run.startedAt;
+    Object.assign(run, result);
+    return run;
+  }
+
+  private truncate(value: unknown): string {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    if (text === undefined) return '';
+    return text.length > this.maxValueLength ? `${text.slice(0, this.maxValueLength)}... [truncated]` : text;
+  }
+}
+
+/**
+ * Token counts from `llmOutput.tokenUsage`, which providers fill in
+ * differently or not at all
+ */
+function readTokenUsage(value: unknown): TokenUsage | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+
+  const usage: TokenUsage = {};
+  for (const key of ['promptTokens', 'completionTokens', 'totalTokens'] as const) {
+    const count = (value as Record<string, unknown>)[key];
+    if (typeof count === 'number') {
+      usage[key] = count;
+    }
+  }
+  return Object.keys(usage).length > 0 ? usage : undefined;
+}
+
+function runnableName(runnable: SerializedRunnable): string {
+  return runnable.name || runnable.id?.[runnable.id.length - 1] || 'unknown';
+}
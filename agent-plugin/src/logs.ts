@@ -0,0 +1,97 @@
+import { promisify } from 'util';
+import zlib from 'zlib';
+
+export interface LogOptions {
+  /**
+   * Logs longer than this are cut down to their head and tail. Defaults to
+   * 2 MB; pass `Infinity` to never truncate.
+   */
+  maxBytes?: number;
+  /** Share of `maxBytes` kept from the start of the logs, defaults to 0.3 */
+  headRatio?: number;
+  /**
+   * The whole report, apart from attachments and logs uploaded in chunks,
+   * is shrunk to fit in this many bytes: old trace steps are dropped
+   * first, then the context, then the logs are cut further. Defaults to
+   * 1.5 MB.
+   */
+  maxPayloadBytes?: number;
+  /** Gzip request bodies larger than 16 KB. On by default. */
+  compress?: boolean;
+  /**
+   * Logs larger than this are uploaded in chunks of this size before the
+   * report is sent. Defaults to 256 KB.
+   */
+  chunkSizeBytes?: number;
+}
+
+export const DEFAULT_MAX_LOG_BYTES = 2 * 1024 * 1024;
+export const DEFAULT_LOG_CHUNK_BYTES = 256 * 1024;
+export const COMPRESS_THRESHOLD_BYTES = 16 * 1024;
+
+export interface TruncatedLogs {
+  logs: string;
+  truncated: boolean;
+  /** Size of the logs before truncation, in bytes */
+  originalBytes: number;
+}
+
+/**
+ * A slice of `buffer` decoded as UTF-8, without a character split at
+ * either edge
+ */
+function decodeSlice(buffer: Buffer, start: number, end: number): string {
+  // UTF-8 continuation bytes look like 10xxxxxx
+  while (start < end && (buffer[start] & 0xc0) === 0x80) start++;
+  while (end > start && end < buffer.length && (buffer[end] & 0xc0) === 0x80) end--;
+  return buffer.subarray(start, end).toString('utf-8');
+}
+
+/**
+ * Keep the start and end of long logs, where the task and the failure
+ * usually are, and replace the middle with a marker
+ */
+export function truncateLogs(
+  logs: string,
+  maxBytes: number = DEFAULT_MAX_LOG_BYTES,
+  headRatio: number = 0.3
+): TruncatedLogs {
+  const buffer = Buffer.from(logs, 'utf-8');
+  const originalBytes = buffer.length;
+
+  if (originalBytes <= maxBytes) {
+    return { logs, truncated: false, originalBytes };
+  }
+
+  const headBytes = Math.floor(maxBytes * headRatio);
+  const tailBytes = maxBytes - headBytes;
+  const omitted = originalBytes - headBytes - tailBytes;
+  const marker = `\n\n... [${omitted} bytes truncated by BugBoard] ...\n\n`;
+
+  return {
+    logs: decodeSlice(buffer, 0, headBytes) + marker + decodeSlice(buffer, originalBytes - tailBytes, originalBytes),
+    truncated: true,
+    originalBytes
+  };
+}
+
+/**
+ * Split text into pieces of at most `chunkBytes` bytes, on character
+ * boundaries
+ */
+export function chunkText(text: string, chunkBytes: number = DEFAULT_LOG_CHUNK_BYTES): string[] {
+  const buffer = Buffer.from(text, 'utf-8');
+  const chunks: string[] = [];
+
+  let start = 0;
+  while (start < buffer.length) {
+    let end = Math.min(start + chunkBytes, buffer.length);
+    while (end > start + 1 && end < buffer.length && (buffer[end] & 0xc0) === 0x80) end--;
+    chunks.push(buffer.subarray(start, end).toString('utf-8'));
+    start = end;
+  }
+
+  return chunks;
+}
+
+export const gzip = promisify(zlib.gzip);
@@ -0,0 +1,609 @@
+import { AssertionError } from 'assert';
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import zlib from 'zlib';
+import { computeFingerprint } from './fingerprint';
+import { BugRecord, BugReportPayload } from './types';
+
+/**
+ * A bug as stored by the mock, with the fields the real API returns
+ */
+export interface MockBug extends BugRecord {
+  input: string;
+  logs: string;
+  trace: unknown;
+  context: unknown;
+  run_id: string | null;
+  session_id: string | null;
+  span_id: string | null;
+  parent_span_id: string | null;
+  fingerprint: string;
+  occurrence_count: number;
+  first_seen: string;
+  last_seen: string;
+}
+
+/**
+ * One report grouped into a bug
+ */
+export interface MockOccurrence {
+  id: string;
+  input: string;
+  error_message: string | null;
+  run_id: string | null;
+  session_id: string | null;
+  span_id: string | null;
+  occurred_at: string;
+}
+
+/**
+ * An attachment as stored by the mock, with the backend's column names.
+ * `content` is set once uploaded.
+ */
+export interface MockAttachment {
+  id: string;
+  bug_id: string;
+  filename: string;
+  /** The content type without parameters */
+  filetype: string;
+  filesize: number;
+  created_at: string;
+  content?: Buffer;
+}
+
+/**
+ * A fix submitted through the API, waiting for review
+ */
+export interface MockFixSubmission {
+  id: string;
+  bug_id: string;
+  submitter_name: string | null;
+  pr_url: string;
+  explanation: string | null;
+  status: 'pending' | 'accepted' | 'rejected';
+  created_at: string;
+}
+
+export interface MockBugBoardOptions {
+  /** Defaults to a random free port */
+  port?: number;
+  /**
+   * Accepted agent API keys, mapped to the agent each was issued for.
+   * Keys are checked whenever a request sends one.
+   */
+  apiKeys?: Record<string, string>;
+  /** Reject reports without an API key, like `REQUIRE_AGENT_API_KEY` */
+  requireApiKey?: boolean;
+}
+
+export type ReportMatcher =
+  | ((payload: BugReportPayload) => boolean)
+  | { [K in keyof BugReportPayload]?: BugReportPayload[K] | RegExp };
+
+export interface MockBugBoard {
+  /** Pass as `apiUrl` to the agent */
+  readonly apiUrl: string;
+  /** Report bodies received by `POST /api/bugs`, in order */
+  readonly reports: BugReportPayload[];
+  readonly bugs: MockBug[];
+  readonly attachments: MockAttachment[];
+  /** Fixes submitted through `POST /api/bugs/:id/fixes` */
+  readonly fixes: MockFixSubmission[];
+  /** Mark a bug resolved, as an admin accepting a fix would */
+  resolve(id: string, fix?: { fixUrl?: string; explanation?: string }): MockBug;
+  /** Answer the next `count` report submissions with `status` */
+  failNext(count: number, status?: number): void;
+  /** Wait until at least `count` reports have arrived */
+  waitForReports(count: number, timeoutMs?: number): Promise<BugReportPayload[]>;
+  /** Throw unless exactly `count` reports were received */
+  expectReportCount(count: number): void;
+  /** Throw unless a received report matches; returns the first match */
+  expectReported(matcher: ReportMatcher): BugReportPayload;
+  expectNoReports(): void;
+  /** Forget all reports, bugs and attachments */
+  reset(): void;
+  close(): Promise<void>;
+}
+
+function matches(payload: BugReportPayload, matcher: ReportMatcher): boolean {
+  if (typeof matcher === 'function') return matcher(payload);
+
+  return Object.entries(matcher).every(([key, expected]) => {
+    const actual = payload[key as keyof BugReportPayload];
+    if (expected instanceof RegExp) {
+      return typeof actual === 'string' && expected.test(actual);
+    }
+    return JSON.stringify(actual) === JSON.stringify(expected);
+  });
+}
+
+function describeMatcher(matcher: ReportMatcher): string {
+  if (typeof matcher === 'function') return 'the given predicate';
+  return JSON.stringify(matcher, (_key, value) => (value instanceof RegExp ? value.toString() : value));
+}
+
+function readRawBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+type JsonObject = Record<string, unknown>;
+
+async function readBody(req: http.IncomingMessage): Promise<unknown> {
+  const raw = await readRawBody(req);
+  const text = (req.headers['content-encoding'] === 'gzip' ? zlib.gunzipSync(raw) : raw).toString('utf-8');
+  return text ? JSON.parse(text) : {};
+}
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A non-empty string field, or undefined
+ */
+function stringField(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Start an in-memory stand-in for the BugBoard API that implements the
+ * `/api/bugs` routes and records every report it receives.
+ *
+ * ```ts
+ * import { createMockBugBoard } from 'bugboard-ai-agent-plugin/testing';
+ *
+ * const bugboard = await createMockBugBoard();
+ * const agent = new BugBoardAgent({ agentName: 'test', apiUrl: bugboard.apiUrl, outbox: false });
+ * await agent.reportBug({ input: 'task', logs: '...', error: 'boom' });
+ * bugboard.expectReported({ error: /boom/ });
+ * await bugboard.close();
+ * ```
+ */
+export async function createMockBugBoard(options: MockBugBoardOptions = {}): Promise<MockBugBoard> {
+  const reports: BugReportPayload[] = [];
+  const bugs: MockBug[] = [];
+  const waiters = new Set<() => void>();
+  const logUploads = new Map<string, { chunkCount: number; chunks: string[] }>();
+  const attachments: MockAttachment[] = [];
+  const attachmentTokens = new Map<string, string>();
+  const occurrences = new Map<string, MockOccurrence[]>();
+  const fixes: MockFixSubmission[] = [];
+  let failures: { remaining: number; status: number } = { remaining: 0, status: 503 };
+
+  const findBug = (id: string) => bugs.find((bug) => bug.id === id);
+
+  // Mirrors POST /api/bugs in backend/src/routes/bugs.ts
+  const createBug = (req: http.IncomingMessage, res: http.ServerResponse, body: JsonObject) => {
+    if (failures.remaining > 0) {
+      failures.remaining -= 1;
+      return sendJson(res, failures.status, { error: 'Simulated failure' });
+    }
+
+    const authHeader = req.headers.authorization;
+    const key = authHeader && authHeader.startsWith('Bearer ') ? authHeader.slice('Bearer '.length).trim() : undefined;
+    const reportedAgent = stringField(body.agentName);
+    let keyAgent: string | undefined;
+
+    if (key) {
+      keyAgent = options.apiKeys?.[key];
+      if (!keyAgent) return sendJson(res, 401, { error: 'Invalid API key' });
+      if (reportedAgent && reportedAgent !== keyAgent) {
+        return sendJson(res, 403, { error: 'API key is not valid for this agent' });
+      }
+    } else if (options.requireApiKey) {
+      return sendJson(res, 401, { error: 'API key required' });
+    }
+
+    const agentName = keyAgent || reportedAgent;
+    const input = stringField(body.input);
+    const error = stringField(body.error);
+    const { trace, context } = body;
+    let logs = stringField(body.logs);
+
+    const logsUploadId = stringField(body.logsUploadId);
+    if (logsUploadId) {
+      const upload = logUploads.get(logsUploadId);
+      if (!upload) return sendJson(res, 400, { error: 'Log upload not found' });
+      if (upload.chunks.filter((chunk) => chunk !== undefined).length !== upload.chunkCount) {
+        return sendJson(res, 400, { error: 'Log upload is incomplete' });
+      }
+      logs = upload.chunks.join('');
+      logUploads.delete(logsUploadId);
+    }
+
+    if (!agentName || !input || !logs) {
+      return sendJson(res, 400, { error: 'Missing required fields' });
+    }
+    if (trace !== undefined && (!isJsonObject(trace) || !Array.isArray(trace.steps))) {
+      return sendJson(res, 400, { error: 'Invalid trace' });
+    }
+    if (context !== undefined && !isJsonObject(context)) {
+      return sendJson(res, 400, { error: 'Invalid context' });
+    }
+
+    if (body.fingerprint !== undefined && !stringField(body.fingerprint)) {
+      return sendJson(res, 400, { error: 'Invalid fingerprint' });
+    }
+    const fingerprint = stringField(body.fingerprint) || computeFingerprint({ agentName, error, input });
+    const seenAt = stringField(body.timestamp) || new Date().toISOString();
+    const occurrence: MockOccurrence = {
+      id: crypto.randomUUID(),
+      input,
+      error_message: error || null,
+      run_id: stringField(body.runId) || null,
+      session_id: stringField(body.sessionId) || null,
+      span_id: stringField(body.spanId) || null,
+      occurred_at: seenAt
+    };
+
+    // Recorded with the reassembled logs, as the backend would store them.
+    // The required fields were checked above; the rest is kept as sent.
+    reports.push({ ...body, logs } as BugReportPayload);
+
+    // Repeats of an open bug are counted against it, as the backend does
+    const existing = bugs.find((bug) =>
+      bug.agent_name === agentName && bug.fingerprint === fingerprint && (bug.status === 'open' || bug.status === 'in_progress')
+    );
+    if (existing) {
+      existing.occurrence_count += 1;
+      if (seenAt > existing.last_seen) existing.last_seen = seenAt;
+      occurrences.get(existing.id)?.push(occurrence);
+      waiters.forEach((wake) => wake());
+      return sendJson(res, 200, { ...existing, attachment_token: attachmentTokens.get(existing.id) });
+    }
+
+    const bug: MockBug = {
+      id: crypto.randomUUID(),
+      title: error ? `Error: ${error.split('\n')[0].substring(0, 50)}` : `Issue with input: ${input.substring(0, 50)}`,
+      agent_name: agentName,
+      input,
+      logs,
+      error_message: error || undefined,
+      trace: trace || null,
+      context: context || null,
+      run_id: occurrence.run_id,
+      session_id: occurrence.session_id,
+      span_id: occurrence.span_id,
+      parent_span_id: stringField(body.parentSpanId) || null,
+      fingerprint,
+      occurrence_count: 1,
+      first_seen: seenAt,
+      last_seen: seenAt,
+      status: 'open',
+      bounty: 5,
+      upvotes: 0,
+      created_at: seenAt
+    };
+
+    bugs.push(bug);
+    occurrences.set(bug.id, [occurrence]);
+    attachmentTokens.set(bug.id, crypto.randomBytes(16).toString('hex'));
+    waiters.forEach((wake) => wake());
+    sendJson(res, 201, { ...bug, attachment_token: attachmentTokens.get(bug.id) });
+  };
+
+  // Mirrors the chunked log upload routes
+  const routeLogUpload = (req: http.IncomingMessage, res: http.ServerResponse, parts: string[], body: JsonObject) => {
+    if (parts.length === 0 && req.method === 'POST') {
+      const { chunkCount, totalBytes } = body;
+      if (typeof chunkCount !== 'number' || !Number.isInteger(chunkCount) || chunkCount < 1) {
+        return sendJson(res, 400, { error: 'Invalid chunk count' });
+      }
+      const uploadId = crypto.randomUUID();
+      logUploads.set(uploadId, { chunkCount, chunks: [] });
+      return sendJson(res, 201, { id: uploadId, chunk_count: chunkCount, total_bytes: totalBytes });
+    }
+
+    const [uploadId, chunksSegment, indexSegment] = parts;
+    if (parts.length === 3 && chunksSegment === 'chunks' && req.method === 'PUT') {
+      const upload = logUploads.get(uploadId);
+      if (!upload) return sendJson(res, 404, { error: 'Log upload not found' });
+
+      const index = Number(indexSegment);
+      if (!Number.isInteger(index) || index < 0 || index >= upload.chunkCount) {
+        return sendJson(res, 400, { error: 'Invalid chunk index' });
+      }
+      const data = stringField(body.data);
+      if (!data) {
+        return sendJson(res, 400, { error: 'Missing chunk data' });
+      }
+      upload.chunks[index] = data;
+      return sendJson(res, 200, { id: uploadId, index });
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+  };
+
+  // Mirrors POST /api/bugs/:id/attachments; the upload URL isn't signed
+  const createAttachment = (res: http.ServerResponse, bug: MockBug | undefined, body: JsonObject) => {
+    if (!bug) return sendJson(res, 404, { error: 'Bug not found' });
+    if (body.token !== attachmentTokens.get(bug.id)) {
+      return sendJson(res, 403, { error: 'Invalid attachment token' });
+    }
+
+    const filename = stringField(body.filename);
+    const { contentType, size } = body;
+    if (!filename || typeof contentType !== 'string') {
+      return sendJson(res, 400, { error: 'Missing required fields' });
+    }
+    if (typeof size !== 'number' || !Number.isInteger(size) || size < 1) {
+      return sendJson(res, 413, { error: 'Invalid attachment size' });
+    }
+
+    const attachment: MockAttachment = {
+      id: crypto.randomUUID(),
+      bug_id: bug.id,
+      filename,
+      filetype: contentType.split(';')[0].trim().toLowerCase(),
+      filesize: size,
+      created_at: new Date().toISOString()
+    };
+    attachments.push(attachment);
+    const { id, filetype, filesize } = attachment;
+    sendJson(res, 201, { id, filename, filetype, filesize, upload_url: `/api/attachments/${id}/content` });
+  };
+
+  const routeAttachment = async (req: http.IncomingMessage, res: http.ServerResponse, parts: string[]) => {
+    const [id, contentSegment] = parts;
+    const attachment = attachments.find((candidate) => candidate.id === id);
+
+    if (parts.length === 2 && contentSegment === 'content' && req.method === 'PUT') {
+      if (!attachment) return sendJson(res, 404, { error: 'Attachment not found' });
+      if (attachment.content) return sendJson(res, 409, { error: 'Attachment has already been uploaded' });
+
+      const content = await readRawBody(req);
+      if (content.length !== attachment.filesize) {
+        return sendJson(res, 400, { error: 'Attachment size does not match' });
+      }
+      attachment.content = content;
+      const { content: _content, ...row } = attachment;
+      return sendJson(res, 200, { ...row, uploaded_at: new Date().toISOString() });
+    }
+
+    if (parts.length === 1 && req.method === 'GET') {
+      if (!attachment || !attachment.content) return sendJson(res, 404, { error: 'Attachment not found' });
+      res.writeHead(200, { 'Content-Type': attachment.filetype });
+      return res.end(attachment.content);
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+  };
+
+  const route = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+    const parts = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+    if (parts[0] === 'api' && parts[1] === 'attachments') {
+      return routeAttachment(req, res, parts.slice(2));
+    }
+    if (parts[0] !== 'api' || parts[1] !== 'bugs') {
+      return sendJson(res, 404, { error: 'Not found' });
+    }
+
+    let body: JsonObject = {};
+    if (req.method === 'POST' || req.method === 'PATCH' || req.method === 'PUT') {
+      let parsed: unknown;
+      try {
+        parsed = await readBody(req);
+      } catch {
+        return sendJson(res, 400, { error: 'Invalid JSON' });
+      }
+      if (!isJsonObject(parsed)) {
+        return sendJson(res, 400, { error: 'Expected a JSON object' });
+      }
+      body = parsed;
+    }
+
+    const [, , id, action] = parts;
+
+    if (id === 'log-uploads') {
+      return routeLogUpload(req, res, parts.slice(3), body);
+    }
+    if (parts.length > 4) {
+      return sendJson(res, 404, { error: 'Not found' });
+    }
+
+    if (!id) {
+      if (req.method === 'GET') {
+        const runId = searchParams.get('runId');
+        const sessionId = searchParams.get('sessionId');
+        const listed = bugs.filter((bug) =>
+          (!runId || bug.run_id === runId) && (!sessionId || bug.session_id === sessionId)
+        );
+        return sendJson(res, 200, listed.sort((a, b) =>
+          searchParams.get('sort') === 'frequency'
+            ? b.occurrence_count - a.occurrence_count || b.last_seen.localeCompare(a.last_seen)
+            : b.created_at.localeCompare(a.created_at)
+        ));
+      }
+      if (req.method === 'POST') return createBug(req, res, body);
+      return sendJson(res, 404, { error: 'Not found' });
+    }
+
+    const bug = findBug(id);
+
+    if (!action && req.method === 'GET') {
+      return bug ? sendJson(res, 200, bug) : sendJson(res, 404, { error: 'Bug not found' });
+    }
+
+    if (action === 'fixes' && req.method === 'GET') {
+      return sendJson(res, 200, fixes.filter((fix) => fix.bug_id === id));
+    }
+
+    // Fixes wait for review; call `resolve` to accept one
+    if ((action === 'fixes' && req.method === 'POST') || (action === 'resolve' && req.method === 'PATCH')) {
+      const prUrl = stringField(body.prUrl) || stringField(body.fixUrl);
+      if (!prUrl) return sendJson(res, 400, { error: 'Fix URL is required' });
+      if (!bug) return sendJson(res, 404, { error: 'Bug not found' });
+      if (bug.status !== 'open' && bug.status !== 'in_progress') {
+        return sendJson(res, 409, { error: 'This bug is no longer accepting fixes' });
+      }
+
+      const fix: MockFixSubmission = {
+        id: crypto.randomUUID(),
+        bug_id: id,
+        submitter_name: stringField(body.submitter) || null,
+        pr_url: prUrl,
+        explanation: stringField(body.explanation) || null,
+        status: 'pending',
+        created_at: new Date().toISOString()
+      };
+      fixes.push(fix);
+      return sendJson(res, 201, fix);
+    }
+
+    if (action === 'occurrences' && req.method === 'GET') {
+      return sendJson(res, 200, (occurrences.get(id) || []).slice().reverse());
+    }
+
+    if (action === 'attachments') {
+      if (req.method === 'POST') return createAttachment(res, bug, body);
+      if (req.method === 'GET') {
+        if (!bug) return sendJson(res, 404, { error: 'Bug not found' });
+        // Same fields as the backend selects
+        const uploaded = attachments
+          .filter((attachment) => attachment.bug_id === id && attachment.content)
+          .map(({ id: attachmentId, filename, filetype, filesize, created_at }) => ({
+            id: attachmentId,
+            filename,
+            filetype,
+            filesize,
+            created_at,
+            download_url: `/api/attachments/${attachmentId}`
+          }));
+        return sendJson(res, 200, uploaded);
+      }
+    }
+
+    if (action === 'upvote' && req.method === 'POST') {
+      if (!bug) return sendJson(res, 404, { error: 'Bug not found' });
+      bug.upvotes += 1;
+      return sendJson(res, 200, bug);
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+  };
+
+  const server = http.createServer((req, res) => {
+    route(req, res).catch((error) => {
+      console.error('Mock BugBoard request failed:', error);
+      sendJson(res, 500, { error: 'Internal server error' });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+
+  const mock: MockBugBoard = {
+    apiUrl: `http://127.0.0.1:${port}/api`,
+    reports,
+    bugs,
+    attachments,
+    fixes,
+
+    resolve(id, fix = {}) {
+      const bug = findBug(id);
+      if (!bug) throw new Error(`Bug ${id} not found`);
+
+      // Accepts the oldest pending submission unless a fix is given
+      const pending = fixes.find((submission) => submission.bug_id === id && submission.status === 'pending');
+      fixes.forEach((submission) => {
+        if (submission.bug_id === id && submission.status === 'pending') {
+          submission.status = submission === pending && !fix.fixUrl ? 'accepted' : 'rejected';
+        }
+      });
+
+      bug.status = 'resolved';
+      bug.fix_url = fix.fixUrl || pending?.pr_url || `https://example.com/fix/${id}`;
+      bug.fix_explanation = fix.explanation ?? pending?.explanation ?? undefined;
+      bug.resolved_at = new Date().toISOString();
+      return bug;
+    },
+
+    failNext(count, status = 503) {
+      failures = { remaining: count, status };
+    },
+
+    waitForReports(count, timeoutMs = 5000) {
+      if (reports.length >= count) return Promise.resolve(reports.slice());
+
+      return new Promise((resolve, reject) => {
+        const wake = () => {
+          if (reports.length < count) return;
+          clearTimeout(timer);
+          waiters.delete(wake);
+          resolve(reports.slice());
+        };
+        const timer = setTimeout(() => {
+          waiters.delete(wake);
+          reject(new AssertionError({
+            message: `Expected ${count} report(s) within ${timeoutMs}ms, received ${reports.length}`
+          }));
+        }, timeoutMs);
+        waiters.add(wake);
+      });
+    },
+
+    expectReportCount(count) {
+      if (reports.length !== count) {
+        throw new AssertionError({
+          message: `Expected ${count} report(s), received ${reports.length}`,
+          actual: reports.length,
+          expected: count
+        });
+      }
+    },
+
+    expectReported(matcher) {
+      const match = reports.find((payload) => matches(payload, matcher));
+      if (!match) {
+        throw new AssertionError({
+          message: `Expected a report matching ${describeMatcher(matcher)}, received ${reports.length} report(s) that did not match`
+        });
+      }
+      return match;
+    },
+
+    expectNoReports() {
+      mock.expectReportCount(0);
+    },
+
+    reset() {
+      reports.length = 0;
+      bugs.length = 0;
+      logUploads.clear();
+      attachments.length = 0;
+      attachmentTokens.clear();
+      occurrences.clear();
+      fixes.length = 0;
+      failures = { remaining: 0, status: 503 };
+    },
+
+    close() {
+      return new Promise((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections?.();
+      });
+    }
+  };
+
+  return mock;
+}
@@ -0,0 +1,364 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import axios from 'axios';
+import { BugReportPayload, BugReportResult } from './types';
+
+export interface OutboxOptions {
+  directory?: string;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  flushOnStart?: boolean;
+  flushOnExit?: boolean;
+}
+
+export interface OutboxEntry {
+  id: string;
+  payload: BugReportPayload;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface FlushResult {
+  sent: number;
+  failed: number;
+  dropped: number;
+}
+
+export type OutboxSender = (payload: BugReportPayload) => Promise<BugReportResult>;
+
+export const DEFAULT_OUTBOX_DIRECTORY = path.join(os.homedir(), '.bugboard', 'outbox');
+
+const ENTRY_SUFFIX = '.json';
+const CLAIM_SUFFIX = '.inflight';
+const DEAD_LETTER_DIR = 'failed';
+
+// A claim this old was left by a process that died while sending the entry
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+/**
+ * Exponential backoff with "equal jitter": half of the delay is fixed and
+ * the other half is random, so retries from many agents spread out
+ */
+export function computeBackoff(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const delay = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, Math.max(0, attempt - 1)));
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Whether a failed delivery is worth retrying. Client errors other than
+ * timeouts and rate limiting will fail the same way next time.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (axios.isAxiosError(error) && error.response) {
+    const status = error.response.status;
+    return status >= 500 || status === 408 || status === 429;
+  }
+  return true;
+}
+
+/**
+ * Thrown by `Outbox.deliver` when a report could not be sent but was kept
+ * to be retried. `cause` is the error the delivery failed with.
+ */
+export class ReportQueuedError extends Error {
+  constructor(public entryId: string, public cause: unknown) {
+    super(`Report queued for retry: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'ReportQueuedError';
+  }
+}
+
+/**
+ * File-backed queue of bug reports that have not been delivered yet.
+ * Each entry is a JSON file so a crash never loses more than the report
+ * being written. Several agents, in one process or many, can share a
+ * directory: an entry is claimed by renaming its file before it is sent,
+ * so only one of them sends it.
+ */
+export class Outbox {
+  private directory: string;
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private retryAt = 0;
+  private exitFlushDone = false;
+
+  constructor(private send: OutboxSender, options: OutboxOptions = {}) {
+    this.directory = options.directory || DEFAULT_OUTBOX_DIRECTORY;
+    this.maxAttempts = options.maxAttempts ?? 8;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 5 * 60 * 1000;
+
+    if (options.flushOnStart !== false) {
+      this.flush().catch((error) => {
+        console.error('Failed to flush BugBoard outbox on start:', error);
+      });
+    }
+
+    if (options.flushOnExit !== false) {
+      process.on('beforeExit', this.handleBeforeExit);
+    }
+  }
+
+  /**
+   * Persist a report and try to deliver it right away. The entry stays on
+   * disk until delivery succeeds: a failure that will be retried rejects
+   * with `ReportQueuedError`, anything else with the delivery error.
+   */
+  async deliver(payload: BugReportPayload): Promise<BugReportResult> {
+    const entry = this.createEntry(payload);
+
+    // Written as a claim, so a flush that lists the directory in the
+    // meantime leaves it to us instead of sending it as well
+    const claim = claimFile(entry.id);
+    await this.persist(entry, claim);
+
+    try {
+      const result = await this.send(payload);
+      await this.unlink(claim);
+      return result;
+    } catch (error) {
+      const kept = await this.recordFailure(entry, claim, error);
+      throw kept ? new ReportQueuedError(entry.id, error) : error;
+    }
+  }
+
+  /**
+   * Add a report to the queue without trying to send it
+   */
+  async enqueue(payload: BugReportPayload): Promise<OutboxEntry> {
+    const entry = this.createEntry(payload);
+    await this.persist(entry, entryFile(entry.id));
+    return entry;
+  }
+
+  /**
+   * Try to deliver every queued report, ignoring backoff
+   */
+  async flush(): Promise<FlushResult> {
+    return this.drain(() => true);
+  }
+
+  /**
+   * Number of reports waiting to be delivered, including those being sent
+   */
+  async pendingCount(): Promise<number> {
+    const [entries, claims] = await Promise.all([this.listFiles(ENTRY_SUFFIX), this.listFiles(CLAIM_SUFFIX)]);
+    return entries.length + claims.length;
+  }
+
+  /**
+   * Stop retrying in the background and detach the exit hook
+   */
+  close(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    process.removeListener('beforeExit', this.handleBeforeExit);
+  }
+
+  private handleBeforeExit = (): void => {
+    // beforeExit fires again once our async work finishes, so only drain once
+    if (this.exitFlushDone) return;
+    this.exitFlushDone = true;
+    this.close();
+
+    this.flush().catch((error) => {
+      console.error('Failed to flush BugBoard outbox on exit:', error);
+    });
+  };
+
+  private createEntry(payload: BugReportPayload): OutboxEntry {
+    return {
+      id: `${Date.now()}-${crypto.randomBytes(6).toString('hex')}`,
+      payload,
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+      nextAttemptAt: Date.now()
+    };
+  }
+
+  private async persist(entry: OutboxEntry, file: string): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await this.write(entry, file);
+  }
+
+  private async drain(isDue: (entry: OutboxEntry) => boolean): Promise<FlushResult> {
+    const result: FlushResult = { sent: 0, failed: 0, dropped: 0 };
+    await this.recoverStaleClaims();
+
+    for (const file of await this.listFiles(ENTRY_SUFFIX)) {
+      const queued = await this.read(file);
+      if (!queued || !isDue(queued)) continue;
+
+      // Another outbox sharing the directory may have claimed it since
+      // it was listed; its file is gone then
+      const claim = claimFile(queued.id);
+      if (!(await this.rename(file, claim))) continue;
+
+      // Read again, in case a failed attempt rewrote the entry meanwhile
+      const entry = await this.read(claim);
+      if (!entry) {
+        await this.rename(claim, file);
+        continue;
+      }
+
+      try {
+        await this.send(entry.payload);
+        await this.unlink(claim);
+        result.sent += 1;
+      } catch (error) {
+        const kept = await this.recordFailure(entry, claim, error);
+        if (kept) {
+          result.failed += 1;
+        } else {
+          result.dropped += 1;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Put entries claimed by a process that died before finishing back in
+   * the queue
+   */
+  private async recoverStaleClaims(): Promise<void> {
+    const now = Date.now();
+    for (const claim of await this.listFiles(CLAIM_SUFFIX)) {
+      const [id, , claimedAt] = claim.split('.');
+      if (now - Number(claimedAt) >= STALE_CLAIM_MS) {
+        await this.rename(claim, entryFile(id));
+      }
+    }
+  }
+
+  /**
+   * Bump the attempt counter, release the claim and schedule a retry.
+   * Returns false when the entry was moved to the dead-letter directory
+   * instead.
+   */
+  private async recordFailure(entry: OutboxEntry, claim: string, error: unknown): Promise<boolean> {
+    entry.attempts += 1;
+    entry.lastError = error instanceof Error ? error.message : String(error);
+
+    if (!isRetryableError(error) || entry.attempts >= this.maxAttempts) {
+      await this.moveToDeadLetter(entry, claim);
+      return false;
+    }
+
+    entry.nextAttemptAt = Date.now() + computeBackoff(entry.attempts, this.baseDelayMs, this.maxDelayMs);
+    await this.write(entry, entryFile(entry.id));
+    await this.unlink(claim);
+    this.scheduleRetry(entry.nextAttemptAt);
+    return true;
+  }
+
+  private scheduleRetry(at: number): void {
+    if (this.exitFlushDone) return;
+    if (this.retryTimer && this.retryAt <= at) return;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+
+    this.retryAt = at;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.retryDue().catch((error) => {
+        console.error('Failed to retry BugBoard outbox:', error);
+      });
+    }, Math.max(0, at - Date.now()));
+
+    // Pending retries should never keep the host process alive
+    this.retryTimer.unref();
+  }
+
+  private async retryDue(): Promise<void> {
+    const now = Date.now();
+    await this.drain((entry) => entry.nextAttemptAt <= now);
+
+    // Entries that were not due yet still need a timer
+    let next = Infinity;
+    for (const file of await this.listFiles(ENTRY_SUFFIX)) {
+      const entry = await this.read(file);
+      if (entry && entry.nextAttemptAt > now) {
+        next = Math.min(next, entry.nextAttemptAt);
+      }
+    }
+    if (next !== Infinity) this.scheduleRetry(next);
+  }
+
+  private async moveToDeadLetter(entry: OutboxEntry, claim: string): Promise<void> {
+    const deadLetterDir = path.join(this.directory, DEAD_LETTER_DIR);
+    await fs.mkdir(deadLetterDir, { recursive: true });
+    await fs.writeFile(path.join(deadLetterDir, entryFile(entry.id)), JSON.stringify(entry, null, 2));
+    await this.unlink(claim);
+    console.error(`BugBoard report ${entry.id} gave up after ${entry.attempts} attempt(s): ${entry.lastError}`);
+  }
+
+  private async listFiles(suffix: string): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+      return files.filter((file) => file.endsWith(suffix)).sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async read(file: string): Promise<OutboxEntry | null> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf-8'));
+    } catch (error) {
+      console.error(`Skipping unreadable BugBoard outbox entry ${file}:`, error);
+      return null;
+    }
+  }
+
+  private async write(entry: OutboxEntry, file: string): Promise<void> {
+    // Write then rename so a crash mid-write never leaves a truncated entry
+    const target = path.join(this.directory, file);
+    const temp = `${target}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(entry, null, 2));
+    await fs.rename(temp, target);
+  }
+
+  /**
+   * Rename a file in the outbox. Returns false if it no longer exists,
+   * e.g. because another outbox claimed it first.
+   */
+  private async rename(from: string, to: string): Promise<boolean> {
+    try {
+      await fs.rename(path.join(this.directory, from), path.join(this.directory, to));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  private async unlink(file: string): Promise<void> {
+    try {
+      await fs.unlink(path.join(this.directory, file));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+}
+
+function entryFile(id: string): string {
+  return `${id}${ENTRY_SUFFIX}`;
+}
+
+/**
+ * The name an entry is renamed to while it is being sent. It records when
+ * it was claimed, so a claim left behind by a crash can be recovered.
+ */
+function claimFile(id: string): string {
+  return `${id}${ENTRY_SUFFIX}.${Date.now()}${CLAIM_SUFFIX}`;
+}
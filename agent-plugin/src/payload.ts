@@ -0,0 +1,68 @@
+import { truncateLogs } from './logs';
+import { BugReportPayload } from './types';
+
+/**
+ * Leaves room under the API's default 2 MB request body limit
+ */
+export const DEFAULT_MAX_PAYLOAD_BYTES = 1.5 * 1024 * 1024;
+
+function jsonBytes(value: unknown): number {
+  return Buffer.byteLength(JSON.stringify(value) ?? '', 'utf-8');
+}
+
+/**
+ * Shrink a report until it serializes to at most `maxBytes`. Attachments
+ * are uploaded separately and don't count. The oldest trace steps go
+ * first, then the context, then the logs, error and input are cut down to
+ * their head and tail in that order.
+ */
+export function fitPayload(
+  payload: BugReportPayload,
+  maxBytes: number = DEFAULT_MAX_PAYLOAD_BYTES,
+  headRatio?: number
+): BugReportPayload {
+  const { attachments, ...report } = payload;
+  let size = jsonBytes(report);
+  if (size <= maxBytes) return payload;
+
+  const fitted: BugReportPayload = { ...report };
+
+  if (fitted.trace) {
+    const steps = fitted.trace.steps.slice();
+    let dropped = 0;
+    while (steps.length > 0 && size > maxBytes) {
+      // Each step is followed by a comma in the serialized array
+      size -= jsonBytes(steps.shift()) + 1;
+      dropped += 1;
+    }
+
+    if (steps.length > 0) {
+      fitted.trace = { ...fitted.trace, steps, droppedSteps: (fitted.trace.droppedSteps || 0) + dropped };
+    } else {
+      delete fitted.trace;
+    }
+    size = jsonBytes(fitted);
+  }
+
+  if (size > maxBytes && fitted.context) {
+    delete fitted.context;
+    size = jsonBytes(fitted);
+  }
+
+  for (const key of ['logs', 'error', 'input'] as const) {
+    const original = fitted[key];
+    if (size <= maxBytes) break;
+    if (!original) continue;
+
+    // Escaping makes the serialized text longer than its raw bytes
+    const escaping = jsonBytes(original) / Buffer.byteLength(original, 'utf-8');
+    let targetBytes = Buffer.byteLength(original, 'utf-8');
+    for (let attempt = 0; attempt < 3 && size > maxBytes && targetBytes > 0; attempt++) {
+      targetBytes = Math.max(0, targetBytes - Math.ceil((size - maxBytes) / escaping) - 128);
+      fitted[key] = truncateLogs(original, targetBytes, headRatio).logs;
+      size = jsonBytes(fitted);
+    }
+  }
+
+  return attachments ? { ...fitted, attachments } : fitted;
+}
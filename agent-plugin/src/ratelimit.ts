@@ -0,0 +1,142 @@
+import { BugReportPayload } from './types';
+
+/**
+ * Caps on how many reports an agent sends. A limit of 0 or Infinity turns
+ * that cap off.
+ */
+export interface RateLimitOptions {
+  /** Reports sent over the agent's lifetime, defaults to 50 */
+  maxPerSession?: number;
+  /** Reports sent in any rolling hour, defaults to 10 */
+  maxPerHour?: number;
+  /** Reports sent for a single fingerprint over the agent's lifetime, defaults to 3 */
+  maxPerFingerprint?: number;
+}
+
+export type RateLimitReason = 'session' | 'hour' | 'fingerprint';
+
+/**
+ * Reports held back since the last report that went out, attached to the
+ * next one
+ */
+export interface SuppressedSummary {
+  total: number;
+  since: string;
+  fingerprints: Array<{
+    fingerprint: string;
+    count: number;
+    /** First line of the error of the most recent suppressed report */
+    error?: string;
+    lastSeen: string;
+  }>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function isLimited(limit: number): boolean {
+  return limit > 0 && Number.isFinite(limit);
+}
+
+/**
+ * Tracks reports sent by one agent and decides whether another may go out
+ */
+export class ReportRateLimiter {
+  private maxPerSession: number;
+  private maxPerHour: number;
+  private maxPerFingerprint: number;
+  private sessionCount = 0;
+  private sentAt: number[] = [];
+  private perFingerprint = new Map<string, number>();
+  private suppressed = new Map<string, SuppressedSummary['fingerprints'][number]>();
+  private suppressedSince: number | null = null;
+
+  constructor(options: RateLimitOptions = {}) {
+    this.maxPerSession = options.maxPerSession ?? 50;
+    this.maxPerHour = options.maxPerHour ?? 10;
+    this.maxPerFingerprint = options.maxPerFingerprint ?? 3;
+  }
+
+  /**
+   * Which limit a report with this fingerprint would exceed, or null if it
+   * may be sent
+   */
+  check(fingerprint: string, now: number = Date.now()): RateLimitReason | null {
+    this.sentAt = this.sentAt.filter((at) => now - at < HOUR_MS);
+
+    if (isLimited(this.maxPerSession) && this.sessionCount >= this.maxPerSession) {
+      return 'session';
+    }
+    if (isLimited(this.maxPerHour) && this.sentAt.length >= this.maxPerHour) {
+      return 'hour';
+    }
+    if (isLimited(this.maxPerFingerprint) && (this.perFingerprint.get(fingerprint) || 0) >= this.maxPerFingerprint) {
+      return 'fingerprint';
+    }
+    return null;
+  }
+
+  /** Count a report that is being sent */
+  record(fingerprint: string, now: number = Date.now()): void {
+    this.sessionCount += 1;
+    this.sentAt.push(now);
+    this.perFingerprint.set(fingerprint, (this.perFingerprint.get(fingerprint) || 0) + 1);
+  }
+
+  /** Count a report that was held back */
+  suppress(payload: BugReportPayload, now: number = Date.now()): void {
+    if (this.suppressedSince === null) {
+      this.suppressedSince = now;
+    }
+
+    const entry = this.suppressed.get(payload.fingerprint);
+    this.suppressed.set(payload.fingerprint, {
+      fingerprint: payload.fingerprint,
+      count: (entry?.count || 0) + 1,
+      error: payload.error?.split('\n')[0] || entry?.error,
+      lastSeen: new Date(now).toISOString()
+    });
+  }
+
+  get suppressedCount(): number {
+    let total = 0;
+    this.suppressed.forEach(({ count }) => {
+      total += count;
+    });
+    return total;
+  }
+
+  /**
+   * The reports suppressed since the last call, or null if there were none.
+   * Clears the count.
+   */
+  takeSuppressed(): SuppressedSummary | null {
+    if (this.suppressedSince === null) return null;
+
+    const summary: SuppressedSummary = {
+      total: this.suppressedCount,
+      since: new Date(this.suppressedSince).toISOString(),
+      fingerprints: Array.from(this.suppressed.values()).sort((a, b) => b.count - a.count)
+    };
+    this.suppressed.clear();
+    this.suppressedSince = null;
+    return summary;
+  }
+}
+
+/**
+ * Plain-text version of a summary, appended to the report's logs
+ */
+export function formatSuppressedSummary(summary: SuppressedSummary): string {
+  const lines = [`${summary.total} occurrence(s) suppressed by rate limits since ${summary.since}:`];
+  for (const { fingerprint, count, error } of summary.fingerprints) {
+    lines.push(`  ${count}x ${fingerprint}${error ? ` ${error}` : ''}`);
+  }
+  return lines.join('\n');
+}
+
+export class ReportRateLimitedError extends Error {
+  constructor(public reason: RateLimitReason) {
+    super(`Report suppressed: ${reason} rate limit reached`);
+    this.name = 'ReportRateLimitedError';
+  }
+}
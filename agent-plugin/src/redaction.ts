@@ -0,0 +1,176 @@
+import { EncodedAttachment, isTextContentType } from './attachments';
+
+export interface RedactionRule {
+  name: string;
+  pattern: RegExp;
+  /**
+   * Replacement text or function. Defaults to `[REDACTED:<name>]`. Use a
+   * function to keep part of the match, e.g. a `Bearer ` prefix.
+   */
+  replacement?: string | ((match: string, ...groups: string[]) => string);
+}
+
+export interface RedactionOptions {
+  /** Extra rules, applied after the built-in ones */
+  rules?: RedactionRule[];
+  /** Set to false to only apply `rules` */
+  useDefaults?: boolean;
+}
+
+/**
+ * One rule that matched in one field. The masked values themselves are
+ * never recorded.
+ */
+export interface Redaction {
+  rule: string;
+  field: string;
+  count: number;
+}
+
+export interface RedactionResult<T> {
+  payload: T;
+  redactions: Redaction[];
+}
+
+const mask = (name: string) => `[REDACTED:${name}]`;
+
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  {
+    name: 'private-key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g
+  },
+  {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g
+  },
+  {
+    name: 'bearer-token',
+    pattern: /\b(Bearer\s+)[A-Za-z0-9._~+/-]+=*/gi,
+    replacement: (_match, prefix) => `${prefix}${mask('bearer-token')}`
+  },
+  {
+    name: 'aws-access-key',
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g
+  },
+  {
+    name: 'aws-secret-key',
+    pattern: /(aws_secret_access_key["']?\s*[=:]\s*["']?)[A-Za-z0-9/+=]{40}/gi,
+    replacement: (_match, prefix) => `${prefix}${mask('aws-secret-key')}`
+  },
+  {
+    name: 'openai-key',
+    pattern: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}/g
+  },
+  {
+    name: 'github-token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g
+  },
+  {
+    name: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g
+  },
+  {
+    name: 'ip-address',
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g
+  },
+  {
+    name: 'home-path',
+    pattern: /(\/(?:home|Users)\/|[A-Za-z]:\\Users\\)[^/\\\s'"`]+/g,
+    replacement: (_match, prefix) => `${prefix}<user>`
+  }
+];
+
+/**
+ * Masks secrets and personal data in outgoing reports
+ */
+export class Redactor {
+  private rules: RedactionRule[];
+
+  constructor(options: RedactionOptions = {}) {
+    const defaults = options.useDefaults === false ? [] : DEFAULT_REDACTION_RULES;
+    this.rules = [...defaults, ...(options.rules || [])].map((rule) => ({
+      ...rule,
+      // String.replace only replaces every match with the global flag
+      pattern: rule.pattern.global ? rule.pattern : new RegExp(rule.pattern.source, `${rule.pattern.flags}g`)
+    }));
+  }
+
+  /**
+   * Redact a single string
+   */
+  redactText(text: string, field: string = 'text'): RedactionResult<string> {
+    const redactions: Redaction[] = [];
+    let result = text;
+
+    for (const rule of this.rules) {
+      let count = 0;
+      result = result.replace(rule.pattern, (match: string, ...args: unknown[]) => {
+        count += 1;
+        if (typeof rule.replacement === 'function') {
+          // Capture groups come before the numeric match offset
+          const offsetIndex = args.findIndex((arg) => typeof arg === 'number');
+          const groups = args.slice(0, offsetIndex).map((group) => (group as string | undefined) ?? '');
+          return rule.replacement(match, ...groups);
+        }
+        return rule.replacement ?? mask(rule.name);
+      });
+
+      if (count > 0) {
+        redactions.push({ rule: rule.name, field, count });
+      }
+    }
+
+    return { payload: result, redactions };
+  }
+
+  /**
+   * Redact every string in a payload, including nested objects and arrays.
+   * Field names in the result are dotted paths like `trace.steps.2.output`.
+   */
+  redact<T>(payload: T): RedactionResult<T> {
+    const redactions: Redaction[] = [];
+
+    const walk = (value: unknown, path: string): unknown => {
+      if (typeof value === 'string') {
+        const result = this.redactText(value, path);
+        redactions.push(...result.redactions);
+        return result.payload;
+      }
+      if (Array.isArray(value)) {
+        return value.map((item, index) => walk(item, path ? `${path}.${index}` : String(index)));
+      }
+      if (value && typeof value === 'object') {
+        const copy: Record<string, unknown> = {};
+        for (const [key, child] of Object.entries(value)) {
+          copy[key] = walk(child, path ? `${path}.${key}` : key);
+        }
+        return copy;
+      }
+      return value;
+    };
+
+    return { payload: walk(payload, '') as T, redactions };
+  }
+
+  /**
+   * Redact the content of text attachments. Binary attachments are
+   * returned unchanged, since patterns can't be matched in them reliably.
+   */
+  redactAttachments(attachments: EncodedAttachment[]): RedactionResult<EncodedAttachment[]> {
+    const redactions: Redaction[] = [];
+
+    const payload = attachments.map((attachment) => {
+      if (!isTextContentType(attachment.contentType)) return attachment;
+
+      const text = Buffer.from(attachment.content, 'base64').toString('utf-8');
+      const result = this.redactText(text, `attachments.${attachment.filename}`);
+      if (result.redactions.length === 0) return attachment;
+
+      redactions.push(...result.redactions);
+      const content = Buffer.from(result.payload, 'utf-8');
+      return { ...attachment, size: content.length, content: content.toString('base64') };
+    });
+
+    return { payload, redactions };
+  }
+}
@@ -0,0 +1,112 @@
+import axios from 'axios';
+import { computeBackoff } from './outbox';
+import { BugRecord } from './types';
+
+/**
+ * How a reported bug was closed
+ */
+export interface Resolution {
+  id: string;
+  status: 'resolved' | 'wont_fix';
+  fixUrl?: string;
+  fixExplanation?: string;
+  resolvedAt?: string;
+  bug: BugRecord;
+}
+
+export interface WaitForResolutionOptions {
+  /** Give up after this long. Waits indefinitely by default. */
+  timeoutMs?: number;
+  /** First polling delay, doubled after every poll up to `maxDelayMs` */
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  /**
+   * Whether pending polls keep the process alive. `waitForResolution`
+   * defaults to true, background `onResolved` subscriptions to false.
+   */
+  keepAlive?: boolean;
+}
+
+export class ResolutionTimeoutError extends Error {
+  constructor(id: string, timeoutMs: number) {
+    super(`Bug ${id} was not resolved within ${timeoutMs}ms`);
+    this.name = 'ResolutionTimeoutError';
+  }
+}
+
+function toResolution(bug: BugRecord): Resolution | null {
+  if (bug.status !== 'resolved' && bug.status !== 'wont_fix') return null;
+
+  return {
+    id: bug.id,
+    status: bug.status,
+    fixUrl: bug.fix_url || undefined,
+    fixExplanation: bug.fix_explanation || undefined,
+    resolvedAt: bug.resolved_at || undefined,
+    bug
+  };
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined, keepAlive: boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Waiting for resolution was aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    if (!keepAlive) timer.unref();
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Poll a bug until it is resolved or marked won't fix. Network errors and
+ * server errors are retried; a missing bug fails immediately.
+ *
+ * The API has no streaming endpoint for bug updates, so this polls
+ * `GET /api/bugs/:id` with exponential backoff.
+ */
+export async function pollForResolution(
+  fetchBug: (id: string) => Promise<BugRecord>,
+  id: string,
+  options: WaitForResolutionOptions = {}
+): Promise<Resolution> {
+  const initialDelayMs = options.initialDelayMs ?? 5000;
+  const maxDelayMs = options.maxDelayMs ?? 5 * 60 * 1000;
+  const keepAlive = options.keepAlive ?? true;
+  const deadline = options.timeoutMs !== undefined ? Date.now() + options.timeoutMs : Infinity;
+
+  for (let attempt = 1; ; attempt++) {
+    if (options.signal?.aborted) {
+      throw new Error('Waiting for resolution was aborted');
+    }
+
+    let resolution: Resolution | null = null;
+    try {
+      resolution = toResolution(await fetchBug(id));
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        throw error;
+      }
+      console.error(`Failed to check resolution of bug ${id}, retrying:`, error instanceof Error ? error.message : error);
+    }
+
+    // Aborting while a poll is in flight must not deliver its result
+    if (options.signal?.aborted) {
+      throw new Error('Waiting for resolution was aborted');
+    }
+    if (resolution) return resolution;
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new ResolutionTimeoutError(id, options.timeoutMs as number);
+    }
+    await sleep(Math.min(computeBackoff(attempt, initialDelayMs, maxDelayMs), remaining), options.signal, keepAlive);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Helpers for comparing agent outputs that are "the same" apart from
+ * volatile details like timestamps, IDs and whitespace
+ */
+
+const VOLATILE_PATTERNS: [RegExp, string][] = [
+  // ISO-8601 timestamps and dates
+  [/\d{4}-\d{2}-\d{2}(?:[t ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:z|[+-]\d{2}:?\d{2})?)?/gi, '<ts>'],
+  // Clock times
+  [/\b\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?\b/g, '<time>'],
+  // UUIDs
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>'],
+  // Hashes, request IDs and other long hex runs
+  [/\b(?:0x)?[0-9a-f]{8,}\b/gi, '<hex>'],
+  // Any remaining numbers (counters, durations, ports, ...)
+  [/\d+(?:\.\d+)?/g, '<n>']
+];
+
+/**
+ * Lowercase, mask volatile tokens and collapse whitespace
+ */
+export function normalizeOutput(text: string): string {
+  let normalized = text.toLowerCase();
+  for (const [pattern, replacement] of VOLATILE_PATTERNS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+  return normalized.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Character shingles (n-grams) of an already normalized string
+ */
+export function shingle(text: string, size: number = 5): Set<string> {
+  const shingles = new Set<string>();
+  if (text.length <= size) {
+    shingles.add(text);
+    return shingles;
+  }
+  for (let i = 0; i <= text.length - size; i++) {
+    shingles.add(text.slice(i, i + size));
+  }
+  return shingles;
+}
+
+/**
+ * Jaccard similarity of two shingle sets, from 0 (disjoint) to 1 (equal)
+ */
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+
+  let intersection = 0;
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  smaller.forEach((item) => {
+    if (larger.has(item)) intersection += 1;
+  });
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * Similarity of two raw outputs after normalization
+ */
+export function outputSimilarity(a: string, b: string, shingleSize: number = 5): number {
+  return jaccard(shingle(normalizeOutput(a), shingleSize), shingle(normalizeOutput(b), shingleSize));
+}
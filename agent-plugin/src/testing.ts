@@ -0,0 +1,5 @@
+/**
+ * Test helpers, imported from `bugboard-ai-agent-plugin/testing` so they
+ * stay out of the main entry point
+ */
+export * from './mock-server';
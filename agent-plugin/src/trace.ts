@@ -0,0 +1,206 @@
+export interface TokenUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+}
+
+export interface ToolCall {
+  id?: string;
+  name: string;
+  arguments?: unknown;
+  result?: unknown;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface ModelResponse {
+  model?: string;
+  content: string;
+  finishReason?: string;
+  usage?: TokenUsage;
+}
+
+export type TraceStepType = 'model' | 'tool' | 'output' | 'error' | 'log';
+
+export interface TraceStep {
+  index: number;
+  type: TraceStepType;
+  name?: string;
+  startedAt: string;
+  durationMs?: number;
+  input?: unknown;
+  output?: unknown;
+  response?: ModelResponse;
+  toolCalls?: ToolCall[];
+  usage?: TokenUsage;
+  error?: string;
+}
+
+/**
+ * Step-by-step record of what an agent did, sent with a report as `trace`
+ */
+export interface AgentTrace {
+  version: 1;
+  startedAt: string;
+  durationMs?: number;
+  usage?: TokenUsage;
+  steps: TraceStep[];
+  /** Number of older steps dropped to stay under `maxSteps` */
+  droppedSteps?: number;
+}
+
+/**
+ * Handle for a step that is still running
+ */
+export interface TraceStepHandle {
+  step: TraceStep;
+  end(result?: { output?: unknown; response?: ModelResponse; usage?: TokenUsage; error?: string }): void;
+  addToolCall(call: ToolCall): void;
+}
+
+/**
+ * Collects trace steps for an agent run. Keeps the most recent `maxSteps`
+ * so a long-running agent doesn't grow without bound.
+ */
+export class TraceRecorder {
+  private steps: TraceStep[] = [];
+  private nextIndex = 0;
+  private droppedSteps = 0;
+  private startedAt = Date.now();
+
+  constructor(private maxSteps: number = 200) {}
+
+  /**
+   * Start a step and get a handle to finish it with
+   */
+  startStep(type: TraceStepType, name?: string, input?: unknown): TraceStepHandle {
+    const startedAt = Date.now();
+    const step: TraceStep = {
+      index: this.nextIndex++,
+      type,
+      name,
+      startedAt: new Date(startedAt).toISOString(),
+      input
+    };
+    this.push(step);
+
+    return {
+      step,
+      end: (result = {}) => {
+        step.durationMs = Date.now() - startedAt;
+        Object.assign(step, result);
+      },
+      addToolCall: (call) => {
+        step.toolCalls = [...(step.toolCalls || []), call];
+      }
+    };
+  }
+
+  /**
+   * Record a step that has already finished
+   */
+  recordStep(step: Omit<TraceStep, 'index' | 'startedAt'> & { startedAt?: string }): TraceStep {
+    const recorded: TraceStep = {
+      ...step,
+      index: this.nextIndex++,
+      startedAt: step.startedAt || new Date().toISOString()
+    };
+    this.push(recorded);
+    return recorded;
+  }
+
+  /**
+   * Record a model response as its own step
+   */
+  recordModelResponse(response: ModelResponse, durationMs?: number): TraceStep {
+    return this.recordStep({ type: 'model', name: response.model, response, usage: response.usage, durationMs });
+  }
+
+  /**
+   * Record a finished tool call as its own step
+   */
+  recordToolCall(call: ToolCall): TraceStep {
+    return this.recordStep({
+      type: 'tool',
+      name: call.name,
+      input: call.arguments,
+      output: call.result,
+      error: call.error,
+      durationMs: call.durationMs,
+      toolCalls: [call]
+    });
+  }
+
+  /**
+   * Snapshot of the trace with total token usage
+   */
+  toJSON(): AgentTrace {
+    return {
+      version: 1,
+      startedAt: new Date(this.startedAt).toISOString(),
+      durationMs: Date.now() - this.startedAt,
+      usage: sumUsage(this.steps),
+      steps: this.steps.map((step) => ({ ...step })),
+      ...(this.droppedSteps > 0 ? { droppedSteps: this.droppedSteps } : {})
+    };
+  }
+
+  isEmpty(): boolean {
+    return this.steps.length === 0;
+  }
+
+  reset(): void {
+    this.steps = [];
+    this.nextIndex = 0;
+    this.droppedSteps = 0;
+    this.startedAt = Date.now();
+  }
+
+  private push(step: TraceStep): void {
+    this.steps.push(step);
+    if (this.steps.length > this.maxSteps) {
+      this.steps.shift();
+      this.droppedSteps += 1;
+    }
+  }
+}
+
+function sumUsage(steps: TraceStep[]): TokenUsage | undefined {
+  const total: TokenUsage = {};
+  let found = false;
+
+  for (const step of steps) {
+    const usage = step.usage || step.response?.usage;
+    if (!usage) continue;
+    found = true;
+    for (const key of ['promptTokens', 'completionTokens', 'totalTokens'] as const) {
+      if (usage[key] !== undefined) {
+        total[key] = (total[key] || 0) + (usage[key] as number);
+      }
+    }
+  }
+
+  return found ? total : undefined;
+}
+
+/**
+ * Plain-text rendering of a trace, used as the report's logs when no other
+ * logs were captured
+ */
+export function formatTrace(trace: AgentTrace): string {
+  return trace.steps
+    .map((step) => {
+      const header = `#${step.index} ${step.type}${step.name ? ` ${step.name}` : ''}` +
+        (step.durationMs !== undefined ? ` (${step.durationMs}ms)` : '');
+      const body = step.error
+        ? `error: ${step.error}`
+        : step.response?.content ?? stringify(step.output);
+      return body ? `${header}\n${body}` : header;
+    })
+    .join('\n\n');
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
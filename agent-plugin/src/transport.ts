@@ -0,0 +1,277 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { EncodedAttachment } from './attachments';
+import { COMPRESS_THRESHOLD_BYTES, DEFAULT_LOG_CHUNK_BYTES, chunkText, gzip } from './logs';
+import { BugReportPayload, BugReportResult } from './types';
+
+/**
+ * Where reports go once they leave the agent. Errors thrown by `send` are
+ * retried through the outbox the same way HTTP errors are.
+ */
+export interface Transport {
+  readonly name: string;
+  /**
+   * Logs longer than this many bytes are uploaded apart from the report,
+   * so they don't count toward `logs.maxPayloadBytes`
+   */
+  readonly chunkLogsOverBytes?: number;
+  send(payload: BugReportPayload): Promise<BugReportResult>;
+  close?(): void;
+}
+
+export const DEFAULT_API_URL = 'https://bugboard.ai/api';
+
+/**
+ * The bug's page on the BugBoard site
+ */
+export function bugPageUrl(apiUrl: string, id: string): string {
+  return `${apiUrl.replace('/api', '')}/bugs/${id}`;
+}
+
+export interface HttpTransportOptions {
+  apiUrl?: string;
+  apiKey?: string;
+  /** Request timeout, defaults to 30 seconds */
+  timeoutMs?: number;
+  /** Gzip large request bodies, defaults to true */
+  compress?: boolean;
+  /** Logs larger than this are uploaded in chunks, defaults to 256 KB */
+  chunkSizeBytes?: number;
+}
+
+/**
+ * Posts reports to the BugBoard API. Large bodies are gzipped, and logs
+ * too big for a single request are uploaded in chunks first and
+ * referenced from the report by upload ID.
+ */
+export class HttpTransport implements Transport {
+  readonly name = 'http';
+  private apiUrl: string;
+  private apiKey?: string;
+  private timeoutMs: number;
+  private compress: boolean;
+  readonly chunkLogsOverBytes: number;
+
+  constructor(options: HttpTransportOptions = {}) {
+    this.apiUrl = options.apiUrl || DEFAULT_API_URL;
+    this.apiKey = options.apiKey;
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.compress = options.compress ?? true;
+    this.chunkLogsOverBytes = options.chunkSizeBytes ?? DEFAULT_LOG_CHUNK_BYTES;
+  }
+
+  async send(payload: BugReportPayload): Promise<BugReportResult> {
+    const { attachments, ...report } = payload;
+    let body: BugReportPayload = report;
+    if (Buffer.byteLength(report.logs, 'utf-8') > this.chunkLogsOverBytes) {
+      const logsUploadId = await this.uploadLogs(report.logs);
+      body = { ...report, logs: '', logsUploadId };
+    }
+
+    const data = await this.request<{ id: string; attachment_token: string }>('post', '/bugs', body);
+    if (attachments?.length) {
+      await this.uploadAttachments(data.id, data.attachment_token, attachments);
+    }
+
+    return {
+      id: data.id,
+      url: bugPageUrl(this.apiUrl, data.id)
+    };
+  }
+
+  private async uploadLogs(logs: string): Promise<string> {
+    const chunks = chunkText(logs, this.chunkLogsOverBytes);
+    const upload = await this.request<{ id: string }>('post', '/bugs/log-uploads', {
+      chunkCount: chunks.length,
+      totalBytes: Buffer.byteLength(logs, 'utf-8')
+    });
+
+    // Sequential, so a flaky connection fails one small request at a time
+    for (let index = 0; index < chunks.length; index++) {
+      await this.request('put', `/bugs/log-uploads/${upload.id}/chunks/${index}`, { data: chunks[index] });
+    }
+
+    return upload.id;
+  }
+
+  /**
+   * Upload attachments to a created bug. Failures are logged, not thrown:
+   * the bug exists, and retrying the report would create it again.
+   */
+  private async uploadAttachments(bugId: string, token: string, attachments: EncodedAttachment[]): Promise<void> {
+    for (const attachment of attachments) {
+      try {
+        const { upload_url } = await this.request<{ upload_url: string }>('post', `/bugs/${bugId}/attachments`, {
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          size: attachment.size,
+          token
+        });
+
+        await axios.put(new URL(upload_url, this.apiUrl).href, Buffer.from(attachment.content, 'base64'), {
+          headers: { 'Content-Type': attachment.contentType },
+          timeout: this.timeoutMs,
+          maxBodyLength: Infinity
+        });
+      } catch (error) {
+        console.error(`Failed to upload attachment "${attachment.filename}" to bug ${bugId}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  /**
+   * Send a JSON request to the API. `T` is the response body the endpoint
+   * is documented to return; it isn't checked.
+   */
+  private async request<T = unknown>(method: 'post' | 'put', urlPath: string, body: unknown): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    let data: string | Buffer = JSON.stringify(body);
+    if (this.compress && Buffer.byteLength(data, 'utf-8') > COMPRESS_THRESHOLD_BYTES) {
+      data = await gzip(data);
+      headers['Content-Encoding'] = 'gzip';
+    }
+
+    const response = await axios.request<T>({
+      method,
+      url: `${this.apiUrl}${urlPath}`,
+      data,
+      headers,
+      timeout: this.timeoutMs,
+      maxBodyLength: Infinity
+    });
+    return response.data;
+  }
+}
+
+/**
+ * Appends reports to a JSON Lines file, one payload per line. Upload the
+ * file later with `bugboard upload <file>`.
+ */
+export class FileTransport implements Transport {
+  readonly name = 'file';
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async send(payload: BugReportPayload): Promise<BugReportResult> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, `${JSON.stringify(payload)}\n`);
+
+    return {
+      id: crypto.randomUUID(),
+      url: pathToFileURL(this.filePath).href
+    };
+  }
+}
+
+/**
+ * Read the reports recorded by a `FileTransport`. Blank and malformed lines
+ * are skipped, e.g. a half-written last line after a crash.
+ */
+export async function readReportFile(filePath: string): Promise<BugReportPayload[]> {
+  const contents = await fs.readFile(filePath, 'utf-8');
+  const payloads: BugReportPayload[] = [];
+
+  for (const line of contents.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      payloads.push(JSON.parse(line));
+    } catch {
+      console.error(`Skipping malformed line in ${filePath}`);
+    }
+  }
+
+  return payloads;
+}
+
+export interface ConsoleTransportOptions {
+  /** Print the whole payload instead of a one-line summary */
+  verbose?: boolean;
+  /** Defaults to `console.log` */
+  log?: (message: string) => void;
+}
+
+/**
+ * Prints reports instead of sending them, for dry runs
+ */
+export class ConsoleTransport implements Transport {
+  readonly name = 'console';
+  private verbose: boolean;
+  private log: (message: string) => void;
+
+  constructor(options: ConsoleTransportOptions = {}) {
+    this.verbose = options.verbose ?? false;
+    this.log = options.log || ((message) => console.log(message));
+  }
+
+  async send(payload: BugReportPayload): Promise<BugReportResult> {
+    const id = `dry-run-${crypto.randomUUID()}`;
+    const summary = (payload.error || payload.input).split('\n')[0];
+
+    this.log(`[bugboard] ${payload.agentName}: ${summary} (${payload.fingerprint})`);
+    if (this.verbose) {
+      this.log(JSON.stringify(payload, null, 2));
+    }
+
+    return { id, url: `dry-run:${id}` };
+  }
+}
+
+/**
+ * Sends every report to several transports. The result comes from the
+ * first transport that succeeded; the send only fails if all of them do.
+ */
+export class FanoutTransport implements Transport {
+  readonly name = 'fanout';
+
+  constructor(private transports: Transport[]) {
+    if (transports.length === 0) {
+      throw new Error('FanoutTransport needs at least one transport');
+    }
+  }
+
+  /**
+   * Logs only stay out of every request when each transport uploads them
+   * apart from the report
+   */
+  get chunkLogsOverBytes(): number | undefined {
+    const limits = this.transports.map((transport) => transport.chunkLogsOverBytes);
+    return limits.every((limit): limit is number => limit !== undefined) ? Math.max(...limits) : undefined;
+  }
+
+  async send(payload: BugReportPayload): Promise<BugReportResult> {
+    const outcomes = await Promise.all(
+      this.transports.map((transport) =>
+        transport.send(payload).then(
+          (result) => ({ ok: true as const, result }),
+          (error: unknown) => ({ ok: false as const, error })
+        )
+      )
+    );
+
+    const succeeded = outcomes.find((outcome) => outcome.ok);
+    outcomes.forEach((outcome, index) => {
+      if (!outcome.ok && succeeded) {
+        console.error(`BugBoard transport "${this.transports[index].name}" failed:`, outcome.error);
+      }
+    });
+
+    if (succeeded && succeeded.ok) return succeeded.result;
+
+    // Rethrow the first error so the outbox can decide whether to retry
+    throw (outcomes[0] as { error: unknown }).error;
+  }
+
+  close(): void {
+    this.transports.forEach((transport) => transport.close?.());
+  }
+}
@@ -0,0 +1,156 @@
+import { OutboxOptions } from './outbox';
+import { StuckDetector } from './detectors';
+import { RedactionOptions } from './redaction';
+import { AgentTrace } from './trace';
+import { ContextOptions, RuntimeContext } from './context';
+import { RateLimitOptions, SuppressedSummary } from './ratelimit';
+import { Transport } from './transport';
+import { LogOptions } from './logs';
+import { BugAttachment, EncodedAttachment } from './attachments';
+
+export interface BugReportOptions {
+  apiUrl?: string;
+  agentName: string;
+  /**
+   * Agent API key issued from the BugBoard admin. Reports sent with a key
+   * are tied to its owner; the key only works for the agent it was issued
+   * for.
+   */
+  apiKey?: string;
+  /**
+   * Where reports are sent. Defaults to the BugBoard API at `apiUrl`; use a
+   * `FileTransport` or `ConsoleTransport` to keep reports local.
+   */
+  transport?: Transport;
+  /**
+   * Where undelivered reports are persisted. Pass `false` to disable the
+   * outbox and fail fast instead.
+   */
+  outbox?: OutboxOptions | false;
+  /**
+   * Replaces the built-in detectors. Use `registerDetector` to add to them
+   * instead.
+   */
+  detectors?: StuckDetector[];
+  /**
+   * Secret and PII masking applied before a report leaves the agent,
+   * including its context and text attachments. On by default; pass
+   * `false` to send reports verbatim.
+   */
+  redaction?: RedactionOptions | false;
+  /**
+   * Opt-in runtime and environment details attached to every report
+   */
+  context?: ContextOptions;
+  /**
+   * Reports with the same fingerprint within this window are only sent
+   * once. Defaults to 10 minutes; pass `false` to send every report.
+   */
+  dedupe?: { windowMs?: number } | false;
+  /**
+   * Caps on reports per session, per hour and per fingerprint. Automatic
+   * reports are capped by default; manual `reportBug` calls only when
+   * this is set. Pass `false` to send every report.
+   */
+  rateLimit?: RateLimitOptions | false;
+  /**
+   * Identifies this run of the agent on every report it sends. Generated
+   * when not given.
+   */
+  runId?: string;
+  /** Groups several runs, e.g. all runs for one user conversation */
+  sessionId?: string;
+  /** Truncation, compression and chunked upload of large logs */
+  logs?: LogOptions;
+  /** Most recent trace steps kept for auto-reports, defaults to 200 */
+  maxTraceSteps?: number;
+  /** Inactivity timeout for the watchdog, defaults to 5 minutes */
+  timeoutMs?: number;
+  /** How often the watchdog checks for inactivity */
+  watchdogIntervalMs?: number;
+}
+
+export interface BugData {
+  input: string;
+  /** Free-form logs. Left empty, they are rendered from `trace`. */
+  logs: string;
+  error?: string;
+  trace?: AgentTrace;
+  /** Extra context for this report, merged over the collected context */
+  context?: RuntimeContext;
+  /** Overrides the computed fingerprint */
+  fingerprint?: string;
+  /** Span this report belongs under, overriding the agent's parent span */
+  parentSpanId?: string;
+  /** Files uploaded with the report, e.g. screenshots or test output */
+  attachments?: BugAttachment[];
+}
+
+export interface ReportOptions {
+  /**
+   * Filed by a detector or an integration rather than by hand. Automatic
+   * reports are always subject to the rate limits.
+   */
+  automatic?: boolean;
+}
+
+/**
+ * The body sent to `POST /api/bugs`
+ */
+export interface BugReportPayload {
+  agentName: string;
+  input: string;
+  logs: string;
+  /** Size of the logs in bytes before truncation */
+  logsSize?: number;
+  /** Set instead of `logs` when the logs were uploaded in chunks */
+  logsUploadId?: string;
+  error?: string;
+  trace?: AgentTrace;
+  context?: RuntimeContext;
+  fingerprint: string;
+  runId: string;
+  sessionId?: string;
+  /** Unique to this report */
+  spanId: string;
+  parentSpanId?: string;
+  /** Uploaded separately once the bug has been created */
+  attachments?: EncodedAttachment[];
+  /** Reports held back by rate limits since the previous report */
+  suppressed?: SuppressedSummary;
+  timestamp: string;
+}
+
+export interface BugReportResult {
+  id: string;
+  url: string;
+  /** True when this report was folded into an identical recent one */
+  duplicate?: boolean;
+}
+
+/**
+ * A bug as returned by `GET /api/bugs/:id`
+ */
+export interface BugRecord {
+  id: string;
+  title: string;
+  agent_name: string;
+  status: 'open' | 'in_progress' | 'resolved' | 'wont_fix';
+  bounty: number;
+  upvotes: number;
+  created_at: string;
+  error_message?: string | null;
+  /** Reports grouped into this bug by fingerprint */
+  occurrence_count?: number;
+  first_seen?: string | null;
+  last_seen?: string | null;
+  fix_url?: string | null;
+  fix_explanation?: string | null;
+  resolved_at?: string | null;
+}
+
+export interface RetryDetectionState {
+  outputs: string[];
+  buildFailures: number;
+  lastActivity: number;
+}
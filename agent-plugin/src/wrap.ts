@@ -0,0 +1,117 @@
+import type { BugBoardAgent } from './index';
+
+export interface WithBugBoardOptions<I, O> {
+  /** Step name used in the trace and in reports */
+  name?: string;
+  /** Thrown errors tolerated before a report is filed, defaults to 3 */
+  errorThreshold?: number;
+  formatInput?: (input: I) => string;
+  formatOutput?: (output: O) => string;
+}
+
+/**
+ * A wrapped step. Call `unregister` once it is no longer used, so the
+ * agent stops adding its calls to reports.
+ */
+export interface BugBoardStep<I, O> {
+  (input: I): Promise<O>;
+  unregister(): void;
+}
+
+interface StepRecord {
+  input: string;
+  output?: string;
+  error?: string;
+  durationMs: number;
+}
+
+const stringify = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value, null, 2) ?? String(value);
+
+// Numbers each wrapper, so wrappers with the same name keep their own log source
+let wrapperCount = 0;
+
+/**
+ * Wrap an async agent step so BugBoard sees every call. Each call is timed
+ * and its result goes through `trackOutput`, so the agent's loop detectors
+ * apply. Thrown errors are counted and, once `errorThreshold` is reached,
+ * reported with the captured input, recent outputs and the stack. Errors
+ * are always rethrown.
+ *
+ *   const plan = withBugBoard(agent, planStep, { name: 'plan' });
+ *   const result = await plan(task);
+ *   plan.unregister();
+ */
+export function withBugBoard<I, O>(
+  agent: BugBoardAgent,
+  step: (input: I) => Promise<O>,
+  options: WithBugBoardOptions<I, O> = {}
+): BugBoardStep<I, O> {
+  const name = options.name || step.name || 'step';
+  const errorThreshold = options.errorThreshold ?? 3;
+  const formatInput = options.formatInput || stringify;
+  const formatOutput = options.formatOutput || stringify;
+  let history: StepRecord[] = [];
+  let errors = 0;
+
+  const remember = (record: StepRecord) => {
+    history.push(record);
+    if (history.length > 5) {
+      history.shift();
+    }
+  };
+
+  const renderHistory = () =>
+    history
+      .map((record) => [
+        `[${name}] ${record.durationMs}ms`,
+        `input: ${record.input}`,
+        record.error ? `error: ${record.error}` : `output: ${record.output}`
+      ].join('\n'))
+      .join('\n\n--- Next Step ---\n\n');
+
+  // Loop reports filed by the agent's own detectors include recent calls too
+  wrapperCount += 1;
+  const unregister = agent.registerLogSource(`withBugBoard: ${name} #${wrapperCount}`, renderHistory);
+
+  const wrapped = async (input: I): Promise<O> => {
+    const startedAt = Date.now();
+
+    try {
+      const output = await step(input);
+      const durationMs = Date.now() - startedAt;
+      const text = formatOutput(output);
+
+      remember({ input: formatInput(input), output: text, durationMs });
+      agent.trackOutput(text, { name, input, durationMs });
+      return output;
+    } catch (error) {
+      const durationMs = Date.now() - startedAt;
+      const message = error instanceof Error ? error.message : String(error);
+      const formattedInput = formatInput(input);
+
+      remember({ input: formattedInput, error: message, durationMs });
+      agent.trace.recordStep({ type: 'error', name, input, error: message, durationMs });
+      agent.heartbeat();
+      errors += 1;
+
+      if (errors >= errorThreshold) {
+        const logs = renderHistory();
+        errors = 0;
+        history = [];
+
+        // reportBug already logs its own failures
+        agent.reportBug({
+          input: formattedInput || `Agent step "${name}"`,
+          logs,
+          error: error instanceof Error && error.stack ? error.stack : message,
+          trace: agent.trace.toJSON()
+        }, { automatic: true }).catch(() => undefined);
+      }
+
+      throw error;
+    }
+  };
+
+  return Object.assign(wrapped, { unregister });
+}
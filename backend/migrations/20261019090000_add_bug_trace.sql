@@ -0,0 +1,2 @@
+-- Store the structured agent trace sent with bug reports
+ALTER TABLE bugs ADD COLUMN IF NOT EXISTS trace JSONB;
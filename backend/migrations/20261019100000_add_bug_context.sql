@@ -0,0 +1,2 @@
+-- Store the runtime/environment context sent with bug reports
+ALTER TABLE bugs ADD COLUMN IF NOT EXISTS context JSONB;
@@ -0,0 +1,32 @@
+-- API keys that agents use to submit bug reports. Only a SHA-256 hash of
+-- each key is stored; the key itself is shown once when it is issued.
+CREATE TABLE IF NOT EXISTS agent_api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  agent_name VARCHAR(100) NOT NULL,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  key_prefix VARCHAR(16) NOT NULL,
+  key_hash CHAR(64) NOT NULL UNIQUE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_api_keys_owner_id ON agent_api_keys(owner_id);
+
+-- Bugs submitted with a key are tied to the key and its owner
+ALTER TABLE bugs ADD COLUMN IF NOT EXISTS api_key_id UUID REFERENCES agent_api_keys(id) ON DELETE SET NULL;
+ALTER TABLE bugs ADD COLUMN IF NOT EXISTS reporter_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+INSERT INTO permissions (name, description) VALUES
+  ('manage_api_keys', 'Can issue and revoke agent API keys')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+CROSS JOIN permissions p
+WHERE r.name IN ('super_admin', 'admin')
+  AND p.name = 'manage_api_keys'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
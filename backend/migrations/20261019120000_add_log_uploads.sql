@@ -0,0 +1,23 @@
+-- Size of a report's logs before the agent truncated them, in bytes
+ALTER TABLE bugs ADD COLUMN IF NOT EXISTS log_size BIGINT;
+
+-- Logs too large for one request are uploaded in chunks, then referenced
+-- from the bug report and reassembled
+CREATE TABLE IF NOT EXISTS log_uploads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chunk_count INTEGER NOT NULL,
+  total_bytes BIGINT NOT NULL,
+  api_key_id UUID REFERENCES agent_api_keys(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS log_upload_chunks (
+  upload_id UUID REFERENCES log_uploads(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  data TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (upload_id, chunk_index)
+);
+
+-- Uploads are deleted once their report is created; this finds abandoned ones
+CREATE INDEX IF NOT EXISTS idx_log_uploads_created_at ON log_uploads(created_at);
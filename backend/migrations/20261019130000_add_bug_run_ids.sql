@@ -0,0 +1,8 @@
+-- Correlation IDs sent by the agent plugin, linking reports from one run
+ALTER TABLE bugs ADD COLUMN IF NOT EXISTS run_id TEXT;
+ALTER TABLE bugs ADD COLUMN IF NOT EXISTS session_id TEXT;
+ALTER TABLE bugs ADD COLUMN IF NOT EXISTS span_id TEXT;
+ALTER TABLE bugs ADD COLUMN IF NOT EXISTS parent_span_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_bugs_run_id ON bugs(run_id);
+CREATE INDEX IF NOT EXISTS idx_bugs_session_id ON bugs(session_id);
@@ -0,0 +1,16 @@
+-- Files attached to bug reports. Columns follow the Attachment model in the
+-- Prisma schema; the content lives on disk under ATTACHMENT_DIR at filepath.
+CREATE TABLE IF NOT EXISTS attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  filename VARCHAR(255) NOT NULL,
+  filepath VARCHAR(500) NOT NULL,
+  filetype VARCHAR(100),
+  filesize INTEGER DEFAULT 0,
+  bug_id UUID NOT NULL REFERENCES bugs(id) ON DELETE CASCADE,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Set once the content has been uploaded to the presigned URL
+  uploaded_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_bug_id ON attachments(bug_id);
@@ -0,0 +1,48 @@
+-- Repeat reports of the same bug are grouped by fingerprint. Bugs created
+-- before this migration have no fingerprint, so new reports never join them.
+ALTER TABLE bugs ADD COLUMN IF NOT EXISTS fingerprint TEXT;
+ALTER TABLE bugs ADD COLUMN IF NOT EXISTS occurrence_count INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE bugs ADD COLUMN IF NOT EXISTS first_seen TIMESTAMP WITH TIME ZONE;
+ALTER TABLE bugs ADD COLUMN IF NOT EXISTS last_seen TIMESTAMP WITH TIME ZONE;
+
+UPDATE bugs SET first_seen = created_at, last_seen = created_at WHERE first_seen IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bugs_fingerprint ON bugs(agent_name, fingerprint);
+CREATE INDEX IF NOT EXISTS idx_bugs_occurrence_count ON bugs(occurrence_count DESC);
+
+-- One row per report, including the one that created the bug
+CREATE TABLE IF NOT EXISTS bug_occurrences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bug_id UUID NOT NULL REFERENCES bugs(id) ON DELETE CASCADE,
+  input TEXT,
+  error_message TEXT,
+  log_size BIGINT,
+  run_id TEXT,
+  session_id TEXT,
+  span_id TEXT,
+  api_key_id UUID REFERENCES agent_api_keys(id) ON DELETE SET NULL,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bug_occurrences_bug_id ON bug_occurrences(bug_id, occurred_at DESC);
+
+INSERT INTO bug_occurrences (bug_id, input, error_message, log_size, run_id, session_id, span_id, api_key_id, occurred_at)
+SELECT id, input, error_message, log_size, run_id, session_id, span_id, api_key_id, created_at
+FROM bugs
+WHERE NOT EXISTS (SELECT 1 FROM bug_occurrences o WHERE o.bug_id = bugs.id);
+
+-- Count a repeat report in one statement, so concurrent reports can't
+-- overwrite each other's increment
+CREATE OR REPLACE FUNCTION record_bug_occurrence(
+  target_bug_id UUID,
+  seen_at TIMESTAMP WITH TIME ZONE
+) RETURNS SETOF bugs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE bugs
+  SET occurrence_count = occurrence_count + 1,
+      last_seen = GREATEST(COALESCE(last_seen, seen_at), seen_at)
+  WHERE id = target_bug_id
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,90 @@
+-- Proposed fixes for a bug. A bug can collect several; an admin accepts at
+-- most one, which resolves the bug and makes it eligible for a payout.
+CREATE TABLE IF NOT EXISTS fix_submissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bug_id UUID NOT NULL REFERENCES bugs(id) ON DELETE CASCADE,
+  -- Display name or GitHub username, and where to reach the submitter
+  submitter_name TEXT,
+  submitter_email TEXT,
+  pr_url TEXT NOT NULL,
+  explanation TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fix_submissions_bug_id ON fix_submissions(bug_id);
+CREATE INDEX IF NOT EXISTS idx_fix_submissions_status ON fix_submissions(status, created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fix_submissions_accepted ON fix_submissions(bug_id) WHERE status = 'accepted';
+
+ALTER TABLE bugs ADD COLUMN IF NOT EXISTS accepted_fix_id UUID REFERENCES fix_submissions(id) ON DELETE SET NULL;
+ALTER TABLE bugs ADD COLUMN IF NOT EXISTS payout_eligible BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Fixes recorded before review existed become accepted submissions
+INSERT INTO fix_submissions (bug_id, pr_url, explanation, status, reviewed_at, created_at)
+SELECT id, fix_url, fix_explanation, 'accepted', resolved_at, COALESCE(resolved_at, created_at)
+FROM bugs
+WHERE status = 'resolved'
+  AND fix_url IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM fix_submissions f WHERE f.bug_id = bugs.id);
+
+UPDATE bugs
+SET accepted_fix_id = f.id, payout_eligible = TRUE
+FROM fix_submissions f
+WHERE f.bug_id = bugs.id AND f.status = 'accepted' AND bugs.accepted_fix_id IS NULL;
+
+-- Accept a pending submission: resolve its bug with the submitted fix and
+-- reject the bug's other pending submissions. Returns nothing if the
+-- submission isn't pending or its bug already has an accepted fix.
+CREATE OR REPLACE FUNCTION accept_fix_submission(
+  submission_id UUID,
+  reviewer_id UUID,
+  note TEXT
+) RETURNS SETOF fix_submissions AS $$
+DECLARE
+  submission fix_submissions%ROWTYPE;
+BEGIN
+  UPDATE fix_submissions
+  SET status = 'accepted', reviewed_by = reviewer_id, reviewed_at = NOW(), review_note = note
+  WHERE id = submission_id
+    AND status = 'pending'
+    AND NOT EXISTS (
+      SELECT 1 FROM fix_submissions other
+      WHERE other.bug_id = fix_submissions.bug_id AND other.status = 'accepted'
+    )
+  RETURNING * INTO submission;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE fix_submissions
+  SET status = 'rejected', reviewed_by = reviewer_id, reviewed_at = NOW(), review_note = 'Another fix was accepted'
+  WHERE bug_id = submission.bug_id AND status = 'pending';
+
+  UPDATE bugs
+  SET status = 'resolved',
+      fix_url = submission.pr_url,
+      fix_explanation = submission.explanation,
+      resolved_at = NOW(),
+      accepted_fix_id = submission.id,
+      payout_eligible = TRUE
+  WHERE id = submission.bug_id;
+
+  RETURN NEXT submission;
+END;
+$$ LANGUAGE plpgsql;
+
+INSERT INTO permissions (name, description) VALUES
+  ('review_fixes', 'Can accept and reject submitted fixes')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+CROSS JOIN permissions p
+WHERE r.name IN ('super_admin', 'admin')
+  AND p.name = 'review_fixes'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
@@ -0,0 +1,202 @@
+-- Bounty payouts. A payout moves pending -> approved -> paid | failed, and
+-- can be cancelled before it is paid; every move is recorded in
+-- payout_transitions.
+CREATE TABLE IF NOT EXISTS payouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bug_id UUID NOT NULL REFERENCES bugs(id) ON DELETE RESTRICT,
+  amount NUMERIC(10, 2) NOT NULL,
+  payment_method TEXT NOT NULL,
+  recipient_info JSONB,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE payouts ADD COLUMN IF NOT EXISTS fix_submission_id UUID REFERENCES fix_submissions(id) ON DELETE SET NULL;
+-- Retrying a create with the same key returns the original payout
+ALTER TABLE payouts ADD COLUMN IF NOT EXISTS idempotency_key TEXT UNIQUE;
+ALTER TABLE payouts ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE payouts ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE payouts ADD COLUMN IF NOT EXISTS paid_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE payouts ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+
+ALTER TABLE payouts DROP CONSTRAINT IF EXISTS payouts_status_check;
+
+-- Payouts made before the ledger had free-form statuses. Map the usual
+-- spellings onto the state machine; anything else was never sent, so it is
+-- cancelled and the bug can be paid out again.
+UPDATE payouts SET status = CASE
+    WHEN status IS NULL THEN 'pending'
+    WHEN LOWER(TRIM(status)) IN ('pending', 'approved', 'paid', 'failed', 'cancelled') THEN LOWER(TRIM(status))
+    WHEN LOWER(TRIM(status)) IN ('completed', 'complete', 'succeeded', 'success') THEN 'paid'
+    WHEN LOWER(TRIM(status)) IN ('processing', 'in_progress', 'sent') THEN 'approved'
+    WHEN LOWER(TRIM(status)) IN ('error', 'rejected') THEN 'failed'
+    ELSE 'cancelled'
+  END
+WHERE status IS NULL OR status NOT IN ('pending', 'approved', 'paid', 'failed', 'cancelled');
+
+-- The old endpoint let a bug collect several pending payouts. Keep the one
+-- furthest along, or the oldest, and cancel the others
+UPDATE payouts SET status = 'cancelled', updated_at = NOW()
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, ROW_NUMBER() OVER (
+      PARTITION BY bug_id
+      ORDER BY CASE status WHEN 'paid' THEN 0 WHEN 'approved' THEN 1 ELSE 2 END, created_at, id
+    ) AS position
+    FROM payouts
+    WHERE status IN ('pending', 'approved', 'paid')
+  ) ranked
+  WHERE position > 1
+);
+
+ALTER TABLE payouts ALTER COLUMN status SET NOT NULL;
+ALTER TABLE payouts ADD CONSTRAINT payouts_status_check
+  CHECK (status IN ('pending', 'approved', 'paid', 'failed', 'cancelled'));
+
+-- A bug is paid out at most once; failed and cancelled payouts can be redone
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payouts_active_bug ON payouts(bug_id) WHERE status IN ('pending', 'approved', 'paid');
+CREATE INDEX IF NOT EXISTS idx_payouts_status ON payouts(status, created_at);
+
+ALTER TABLE bugs ADD COLUMN IF NOT EXISTS payout_status VARCHAR(20);
+
+-- Follow the payout each bug kept above
+UPDATE bugs SET payout_status = payouts.status
+FROM payouts
+WHERE payouts.bug_id = bugs.id
+  AND payouts.status IN ('pending', 'approved', 'paid')
+  AND bugs.payout_status IS DISTINCT FROM payouts.status;
+
+CREATE TABLE IF NOT EXISTS payout_transitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payout_id UUID NOT NULL REFERENCES payouts(id) ON DELETE RESTRICT,
+  -- NULL when the payout was created
+  from_status VARCHAR(20),
+  to_status VARCHAR(20) NOT NULL,
+  admin_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Who made the change when there is no admin user, e.g. "admin:<username>"
+  actor TEXT,
+  note TEXT,
+  metadata JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_transitions_payout_id ON payout_transitions(payout_id, created_at);
+
+CREATE OR REPLACE FUNCTION prevent_payout_transition_changes() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'payout_transitions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS payout_transitions_append_only ON payout_transitions;
+CREATE TRIGGER payout_transitions_append_only
+  BEFORE UPDATE OR DELETE ON payout_transitions
+  FOR EACH ROW EXECUTE FUNCTION prevent_payout_transition_changes();
+
+-- Create a pending payout for a bug with an accepted fix. If a payout with
+-- this idempotency key exists it is returned instead.
+CREATE OR REPLACE FUNCTION create_payout(
+  target_bug_id UUID,
+  payout_amount NUMERIC,
+  method TEXT,
+  recipient JSONB,
+  idempotency TEXT,
+  admin UUID,
+  actor_name TEXT,
+  note TEXT
+) RETURNS SETOF payouts AS $$
+DECLARE
+  bug bugs%ROWTYPE;
+  payout payouts%ROWTYPE;
+BEGIN
+  IF idempotency IS NOT NULL THEN
+    SELECT * INTO payout FROM payouts WHERE idempotency_key = idempotency;
+    IF FOUND THEN
+      RETURN NEXT payout;
+      RETURN;
+    END IF;
+  END IF;
+
+  SELECT * INTO bug FROM bugs WHERE id = target_bug_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF NOT bug.payout_eligible THEN
+    RAISE EXCEPTION 'Cannot add payout to a bug without an accepted fix' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO payouts (bug_id, fix_submission_id, amount, payment_method, recipient_info, status, idempotency_key, created_by)
+  VALUES (bug.id, bug.accepted_fix_id, payout_amount, method, recipient, 'pending', idempotency, admin)
+  RETURNING * INTO payout;
+
+  INSERT INTO payout_transitions (payout_id, from_status, to_status, admin_id, actor, note)
+  VALUES (payout.id, NULL, 'pending', admin, actor_name, note);
+
+  UPDATE bugs SET payout_status = 'pending' WHERE id = bug.id;
+
+  RETURN NEXT payout;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move a payout to another state and record it in the ledger. Moving to
+-- the state it is already in changes nothing, so retries are safe.
+CREATE OR REPLACE FUNCTION transition_payout(
+  target_payout_id UUID,
+  next_status TEXT,
+  admin UUID,
+  actor_name TEXT,
+  note TEXT,
+  details JSONB
+) RETURNS SETOF payouts AS $$
+DECLARE
+  payout payouts%ROWTYPE;
+  previous_status TEXT;
+BEGIN
+  SELECT * INTO payout FROM payouts WHERE id = target_payout_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF payout.status = next_status THEN
+    RETURN NEXT payout;
+    RETURN;
+  END IF;
+
+  IF NOT (
+    (payout.status = 'pending' AND next_status IN ('approved', 'cancelled')) OR
+    (payout.status = 'approved' AND next_status IN ('paid', 'failed', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'Cannot move a % payout to %', payout.status, next_status USING ERRCODE = 'check_violation';
+  END IF;
+
+  previous_status := payout.status;
+
+  UPDATE payouts
+  SET status = next_status,
+      updated_at = NOW(),
+      paid_at = CASE WHEN next_status = 'paid' THEN NOW() ELSE paid_at END,
+      failure_reason = CASE WHEN next_status = 'failed' THEN note ELSE failure_reason END
+  WHERE id = payout.id
+  RETURNING * INTO payout;
+
+  INSERT INTO payout_transitions (payout_id, from_status, to_status, admin_id, actor, note, metadata)
+  VALUES (payout.id, previous_status, next_status, admin, actor_name, note, details);
+
+  UPDATE bugs SET payout_status = next_status WHERE id = payout.bug_id;
+
+  RETURN NEXT payout;
+END;
+$$ LANGUAGE plpgsql;
+
+INSERT INTO permissions (name, description) VALUES
+  ('manage_payouts', 'Can create, approve and settle bounty payouts')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+CROSS JOIN permissions p
+WHERE r.name IN ('super_admin', 'admin')
+  AND p.name = 'manage_payouts'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
@@ -0,0 +1,16 @@
+-- Payouts are sent through a payout provider, named by payment_method. The
+-- provider's transfer ID and last reported status are kept on the payout so
+-- reconciliation can sync it back.
+ALTER TABLE payouts ADD COLUMN IF NOT EXISTS provider_reference TEXT;
+ALTER TABLE payouts ADD COLUMN IF NOT EXISTS provider_status VARCHAR(20);
+ALTER TABLE payouts ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE payouts DROP CONSTRAINT IF EXISTS payouts_provider_status_check;
+ALTER TABLE payouts ADD CONSTRAINT payouts_provider_status_check
+  CHECK (provider_status IS NULL OR provider_status IN ('processing', 'paid', 'failed', 'cancelled'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payouts_provider_reference ON payouts(payment_method, provider_reference)
+  WHERE provider_reference IS NOT NULL;
+-- Payouts reconciliation still has to look at
+CREATE INDEX IF NOT EXISTS idx_payouts_provider_processing ON payouts(reconciled_at)
+  WHERE status = 'approved' OR (status = 'cancelled' AND provider_status = 'processing');
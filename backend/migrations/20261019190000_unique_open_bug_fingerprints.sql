@@ -0,0 +1,20 @@
+-- Two first reports of the same bug could both miss the lookup for an open
+-- bug and create one each. Only one open bug per agent may now have a
+-- fingerprint; a report whose insert loses the race is counted against the
+-- bug that won.
+
+-- Bugs the race already duplicated stay as they are, but only the oldest
+-- keeps the fingerprint and collects new reports
+UPDATE bugs SET fingerprint = NULL
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY agent_name, fingerprint ORDER BY created_at, id) AS position
+    FROM bugs
+    WHERE fingerprint IS NOT NULL AND status IN ('open', 'in_progress')
+  ) ranked
+  WHERE position > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bugs_open_fingerprint
+  ON bugs(agent_name, fingerprint)
+  WHERE status IN ('open', 'in_progress');
@@ -0,0 +1,4 @@
+-- Bugs are listed by run or session through their occurrences too, so a
+-- report grouped into a bug from an earlier run is found
+CREATE INDEX IF NOT EXISTS idx_bug_occurrences_run_id ON bug_occurrences(run_id);
+CREATE INDEX IF NOT EXISTS idx_bug_occurrences_session_id ON bug_occurrences(session_id);
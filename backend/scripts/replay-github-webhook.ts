@@ -0,0 +1,83 @@
+/**
+ * Replay a recorded GitHub webhook delivery against a running backend,
+ * signed with GITHUB_WEBHOOK_SECRET the way GitHub signs it.
+ *
+ *   npm run replay:github -- fixtures/github/pull_request.merged.json \
+ *     --pr-url https://github.com/acme/agent/pull/7
+ *
+ * Fixtures are named `<event>.<description>.json`; the event is sent as
+ * `X-GitHub-Event`. To record a new one, copy the payload of a delivery from
+ * the webhook's "Recent Deliveries" page on GitHub.
+ *
+ * Options:
+ *   --pr-url <url>  Point the pull request at this URL, e.g. a fix submitted
+ *                   locally, so the delivery matches it
+ *   --url <url>     Webhook endpoint, defaults to the local backend
+ *   --event <name>  Override the event taken from the file name
+ */
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { signGithubPayload } from '../src/github';
+
+dotenv.config();
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function replay() {
+  const args = process.argv.slice(2);
+  const fixturePath = args.find((arg, index) => !arg.startsWith('--') && !args[index - 1]?.startsWith('--'));
+
+  if (!fixturePath) {
+    console.error('Usage: npm run replay:github -- <fixture.json> [--pr-url <url>] [--url <url>] [--event <name>]');
+    process.exit(1);
+  }
+
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('GITHUB_WEBHOOK_SECRET must be set to sign the delivery');
+    process.exit(1);
+  }
+
+  const url = readOption(args, '--url') || `http://localhost:${process.env.PORT || 3001}/api/integrations/github/webhook`;
+  const event = readOption(args, '--event') || path.basename(fixturePath).split('.')[0];
+  const payload = JSON.parse(await fs.readFile(fixturePath, 'utf-8'));
+
+  const prUrl = readOption(args, '--pr-url');
+  if (prUrl && payload.pull_request) {
+    const number = Number(prUrl.match(/\/pull\/(\d+)/)?.[1]);
+    payload.pull_request.html_url = prUrl;
+    if (number) {
+      payload.pull_request.number = number;
+      payload.number = number;
+    }
+  }
+
+  const body = JSON.stringify(payload);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-GitHub-Event': event,
+      'X-GitHub-Delivery': crypto.randomUUID(),
+      'X-Hub-Signature-256': signGithubPayload(secret, body)
+    },
+    body
+  });
+
+  console.log(`${event} -> ${response.status} ${response.statusText}`);
+  console.log(await response.text());
+
+  if (!response.ok) {
+    process.exit(1);
+  }
+}
+
+replay().catch((error) => {
+  console.error('Replay failed:', error);
+  process.exit(1);
+});
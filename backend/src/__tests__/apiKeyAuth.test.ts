@@ -0,0 +1,143 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { agentApiKeyAuth, hashApiKey } from '../middleware/apiKeyAuth';
+
+type Row = Record<string, unknown>;
+type Failure = { message: string } | null;
+
+/**
+ * Just enough of the Supabase client to look a key up by hash and update
+ * its last_used_at
+ */
+function fakeSupabase(keys: Row[], failures: { lookup?: Failure; update?: Failure } = {}) {
+  const client = {
+    from() {
+      let values: Row | undefined;
+      const filters: Array<(row: Row) => boolean> = [];
+      const query = {
+        select: () => query,
+        update: (update: Row) => {
+          values = update;
+          return query;
+        },
+        eq: (column: string, value: unknown) => {
+          filters.push((row) => row[column] === value);
+          return query;
+        },
+        maybeSingle: async () => ({
+          data: failures.lookup ? null : keys.find((row) => filters.every((filter) => filter(row))) ?? null,
+          error: failures.lookup ?? null
+        }),
+        then: (resolve: (result: { error: Failure }) => void) => {
+          if (!failures.update) {
+            keys.filter((row) => filters.every((filter) => filter(row))).forEach((row) => Object.assign(row, values));
+          }
+          resolve({ error: failures.update ?? null });
+        }
+      };
+      return query;
+    }
+  };
+  return client as unknown as SupabaseClient;
+}
+
+describe('hashApiKey', () => {
+  it('is the hex SHA-256 of the key', () => {
+    expect(hashApiKey('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('agent API key authentication', () => {
+  let server: http.Server;
+  let url: string;
+  let keys: Row[];
+  let errors: unknown[][];
+
+  const start = async (supabase: SupabaseClient, options: { required?: boolean } = {}) => {
+    const app = express();
+    app.post('/api/bugs', agentApiKeyAuth(supabase, options), (req, res) => {
+      res.status(201).json({ apiKey: res.locals.apiKey ?? null });
+    });
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/bugs`;
+  };
+
+  const report = (key?: string) =>
+    fetch(url, { method: 'POST', headers: key ? { Authorization: `Bearer ${key}` } : {} });
+
+  beforeEach(() => {
+    keys = [
+      { id: 'key-1', agent_name: 'research-agent', owner_id: 'user-1', key_hash: hashApiKey('bb_valid'), revoked_at: null, last_used_at: null },
+      { id: 'key-2', agent_name: 'coding-agent', owner_id: null, key_hash: hashApiKey('bb_revoked'), revoked_at: new Date(0).toISOString(), last_used_at: null }
+    ];
+    errors = [];
+    jest.spyOn(console, 'error').mockImplementation((...args) => {
+      errors.push(args);
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('verifies a key by its hash and records when it was used', async () => {
+    await start(fakeSupabase(keys));
+
+    const response = await report('bb_valid');
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ apiKey: { id: 'key-1', agent_name: 'research-agent', owner_id: 'user-1' } });
+    expect(keys[0].last_used_at).toEqual(expect.any(String));
+    expect(Date.now() - Date.parse(keys[0].last_used_at as string)).toBeLessThan(5000);
+    expect(keys[1].last_used_at).toBeNull();
+  });
+
+  it('rejects keys that are unknown or revoked', async () => {
+    await start(fakeSupabase(keys));
+
+    const unknown = await report('bb_unknown');
+    expect(unknown.status).toBe(401);
+    expect(await unknown.json()).toEqual({ error: 'Invalid API key' });
+
+    const revoked = await report('bb_revoked');
+    expect(revoked.status).toBe(401);
+    expect(await revoked.json()).toEqual({ error: 'API key has been revoked' });
+    expect(keys[1].last_used_at).toBeNull();
+  });
+
+  it('lets requests without a key through unless one is required', async () => {
+    await start(fakeSupabase(keys));
+    const anonymous = await report();
+    expect(anonymous.status).toBe(201);
+    expect(await anonymous.json()).toEqual({ apiKey: null });
+    await new Promise((resolve) => server.close(resolve));
+
+    await start(fakeSupabase(keys), { required: true });
+    const required = await report();
+    expect(required.status).toBe(401);
+    expect(await required.json()).toEqual({ error: 'API key required' });
+  });
+
+  it('accepts the report when last_used_at cannot be updated', async () => {
+    await start(fakeSupabase(keys, { update: { message: 'connection reset' } }));
+
+    const response = await report('bb_valid');
+
+    expect(response.status).toBe(201);
+    expect(keys[0].last_used_at).toBeNull();
+    expect(errors).toEqual([['Error updating API key last used time:', { message: 'connection reset' }]]);
+  });
+
+  it('answers 500 when the key cannot be looked up', async () => {
+    await start(fakeSupabase(keys, { lookup: { message: 'connection reset' } }));
+
+    const response = await report('bb_valid');
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to verify API key' });
+  });
+});
@@ -0,0 +1,95 @@
+import { promises as fs } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ATTACHMENT_DIR } from '../attachments';
+import attachmentRoutes from '../routes/attachments';
+
+interface AttachmentRow {
+  id: string;
+  filename: string;
+  filepath: string;
+  filetype: string;
+  filesize: number;
+  uploaded_at: string | null;
+}
+
+/**
+ * Just enough of the Supabase client to look an attachment up by ID
+ */
+function fakeSupabase(attachments: AttachmentRow[]) {
+  const client = {
+    from() {
+      let id: string | undefined;
+      const query = {
+        select: () => query,
+        eq: (_column: string, value: string) => {
+          id = value;
+          return query;
+        },
+        maybeSingle: async () => ({ data: attachments.find((attachment) => attachment.id === id) ?? null, error: null })
+      };
+      return query;
+    }
+  };
+  return client as unknown as SupabaseClient;
+}
+
+describe('attachment downloads', () => {
+  let server: http.Server;
+  let url: string;
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bugboard-attachments-'));
+    await fs.writeFile(path.join(dir, 'notes.txt'), 'hello');
+    await fs.mkdir(path.join(dir, 'folder.txt'));
+
+    const stored = (name: string) => path.relative(ATTACHMENT_DIR, path.join(dir, name));
+    const uploadedAt = new Date(0).toISOString();
+    const supabase = fakeSupabase([
+      { id: 'att-1', filename: 'notes.txt', filepath: stored('notes.txt'), filetype: 'text/plain', filesize: 5, uploaded_at: uploadedAt },
+      { id: 'att-2', filename: 'gone.txt', filepath: stored('gone.txt'), filetype: 'text/plain', filesize: 5, uploaded_at: uploadedAt },
+      { id: 'att-3', filename: 'folder.txt', filepath: stored('folder.txt'), filetype: 'text/plain', filesize: 5, uploaded_at: uploadedAt },
+      { id: 'att-4', filename: 'pending.txt', filepath: stored('notes.txt'), filetype: 'text/plain', filesize: 5, uploaded_at: null }
+    ]);
+
+    const app = express();
+    app.use('/api/attachments', attachmentRoutes(supabase));
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/attachments`;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await new Promise((resolve) => server.close(resolve));
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('sends the file as a download', async () => {
+    const response = await fetch(`${url}/att-1`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-disposition')).toMatch(/^attachment; filename="notes.txt"/);
+    expect(await response.text()).toBe('hello');
+  });
+
+  it('answers 404 for attachments that were never uploaded or are missing on disk', async () => {
+    expect((await fetch(`${url}/att-4`)).status).toBe(404);
+    expect((await fetch(`${url}/att-2`)).status).toBe(404);
+    expect((await fetch(`${url}/unknown`)).status).toBe(404);
+  });
+
+  it('answers 500 for a file that cannot be read and keeps serving', async () => {
+    const response = await fetch(`${url}/att-3`);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to download attachment' });
+    expect(await (await fetch(`${url}/att-1`)).text()).toBe('hello');
+  });
+});
@@ -0,0 +1,86 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { SupabaseClient } from '@supabase/supabase-js';
+import bugRoutes from '../routes/bugs';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Just enough of the Supabase client to list bugs: `eq` and `in` filters on
+ * the `bugs` and `bug_occurrences` tables, in the order they were added
+ */
+function fakeSupabase(tables: Record<string, Row[]>) {
+  const client = {
+    from(table: string) {
+      const filters: Array<(row: Row) => boolean> = [];
+      const query = {
+        select: () => query,
+        order: () => query,
+        eq: (column: string, value: unknown) => {
+          filters.push((row) => row[column] === value);
+          return query;
+        },
+        in: (column: string, values: unknown[]) => {
+          filters.push((row) => values.includes(row[column]));
+          return query;
+        },
+        then: (resolve: (result: { data: Row[]; error: null }) => void) =>
+          resolve({ data: tables[table].filter((row) => filters.every((filter) => filter(row))), error: null })
+      };
+      return query;
+    }
+  };
+  return client as unknown as SupabaseClient;
+}
+
+describe('listing bugs by run', () => {
+  let server: http.Server;
+  let url: string;
+
+  beforeEach(async () => {
+    const supabase = fakeSupabase({
+      bugs: [
+        { id: 'bug-1', run_id: 'run-1', session_id: 'session-1' },
+        { id: 'bug-2', run_id: 'run-2', session_id: 'session-2' },
+        { id: 'bug-3', run_id: 'run-3', session_id: 'session-2' }
+      ],
+      bug_occurrences: [
+        { bug_id: 'bug-1', run_id: 'run-1', session_id: 'session-1' },
+        { bug_id: 'bug-2', run_id: 'run-2', session_id: 'session-2' },
+        // bug-1 reported again by run-2 was grouped into the bug from run-1
+        { bug_id: 'bug-1', run_id: 'run-2', session_id: 'session-2' },
+        { bug_id: 'bug-3', run_id: 'run-3', session_id: 'session-2' }
+      ]
+    });
+
+    const app = express();
+    app.use('/api/bugs', bugRoutes(supabase));
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/bugs`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const listIds = async (query: string) => {
+    const response = await fetch(`${url}?${query}`);
+    const bugs: Row[] = await response.json();
+    return bugs.map((bug) => bug.id);
+  };
+
+  it('includes bugs a report from the run was grouped into', async () => {
+    expect(await listIds('runId=run-2')).toEqual(['bug-1', 'bug-2']);
+    expect(await listIds('runId=run-1')).toEqual(['bug-1']);
+  });
+
+  it('matches sessions the same way', async () => {
+    expect(await listIds('sessionId=session-2')).toEqual(['bug-1', 'bug-2', 'bug-3']);
+  });
+
+  it('finds nothing for a run without reports', async () => {
+    expect(await listIds('runId=run-9')).toEqual([]);
+  });
+});
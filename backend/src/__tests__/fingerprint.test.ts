@@ -0,0 +1,16 @@
+import fs from 'fs';
+import path from 'path';
+import { computeFingerprint } from '../fingerprint';
+
+// Generated by the agent plugin, whose algorithm this one mirrors
+const VECTORS_PATH = path.join(__dirname, '..', '..', '..', 'agent-plugin', 'src', '__tests__', 'fixtures', 'fingerprints.json');
+
+const vectors: Array<{ agentName: string; error?: string; input?: string; fingerprint: string }> = JSON.parse(
+  fs.readFileSync(VECTORS_PATH, 'utf-8')
+);
+
+describe('computeFingerprint', () => {
+  it.each(vectors)('matches the agent plugin for $agentName', ({ agentName, error, input, fingerprint }) => {
+    expect(computeFingerprint(agentName, error, input)).toBe(fingerprint);
+  });
+});
@@ -0,0 +1,170 @@
+import { promises as fs } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import express from 'express';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { pullRequestKey, signGithubPayload, verifyGithubSignature } from '../github';
+import integrationRoutes from '../routes/integrations';
+
+const SECRET = 'test-webhook-secret';
+const FIXTURES_DIR = path.join(__dirname, '..', '..', 'fixtures', 'github');
+
+interface Submission {
+  id: string;
+  bug_id: string;
+  pr_url: string;
+  status: string;
+}
+
+/**
+ * Just enough of the Supabase client for the webhook: listing pending fix
+ * submissions and accepting one
+ */
+function fakeSupabase(submissions: Submission[]) {
+  const accepted: Array<{ submission_id: string; note: string }> = [];
+
+  const client = {
+    from() {
+      const filters: Array<(submission: Submission) => boolean> = [];
+      const query = {
+        select: () => query,
+        eq: (column: keyof Submission, value: string) => {
+          filters.push((submission) => submission[column] === value);
+          return query;
+        },
+        ilike: (column: keyof Submission, pattern: string) => {
+          const needle = pattern.replace(/%/g, '').toLowerCase();
+          filters.push((submission) => submission[column].toLowerCase().includes(needle));
+          return query;
+        },
+        then: (resolve: (result: { data: Submission[]; error: null }) => void) =>
+          resolve({ data: submissions.filter((submission) => filters.every((filter) => filter(submission))), error: null })
+      };
+      return query;
+    },
+    async rpc(_name: string, args: { submission_id: string; note: string }) {
+      const submission = submissions.find((candidate) => candidate.id === args.submission_id);
+      if (!submission || submission.status !== 'pending') return { data: [], error: null };
+
+      submission.status = 'accepted';
+      accepted.push(args);
+      return { data: [submission], error: null };
+    }
+  };
+
+  return { client: client as unknown as SupabaseClient, accepted };
+}
+
+async function readFixture(name: string): Promise<string> {
+  return fs.readFile(path.join(FIXTURES_DIR, name), 'utf-8');
+}
+
+describe('GitHub webhook', () => {
+  let server: http.Server;
+  let url: string;
+  let submissions: Submission[];
+  let accepted: Array<{ submission_id: string; note: string }>;
+
+  beforeEach(async () => {
+    process.env.GITHUB_WEBHOOK_SECRET = SECRET;
+    submissions = [
+      { id: 'fix-1', bug_id: 'bug-1', pr_url: 'https://github.com/Octo-Org/agent-tools/pull/42/files', status: 'pending' },
+      { id: 'fix-2', bug_id: 'bug-2', pr_url: 'https://github.com/octo-org/other-repo/pull/42', status: 'pending' },
+      { id: 'fix-3', bug_id: 'bug-3', pr_url: 'https://github.com/octo-org/agent-tools/pull/43', status: 'pending' }
+    ];
+    const supabase = fakeSupabase(submissions);
+    accepted = supabase.accepted;
+
+    const app = express();
+    app.use('/api/integrations', integrationRoutes(supabase.client));
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/integrations/github/webhook`;
+  });
+
+  afterEach(async () => {
+    delete process.env.GITHUB_WEBHOOK_SECRET;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  /**
+   * Deliver a body the way GitHub does, signed unless a signature is given
+   */
+  const deliver = async (event: string, body: string, signature = signGithubPayload(SECRET, body)) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-GitHub-Event': event, 'X-Hub-Signature-256': signature },
+      body
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  it('answers pings', async () => {
+    const response = await deliver('ping', await readFixture('ping.json'));
+
+    expect(response).toEqual({ status: 200, body: { status: 'ok' } });
+  });
+
+  it('accepts the pending fixes that link to a merged pull request', async () => {
+    const response = await deliver('pull_request', await readFixture('pull_request.merged.json'));
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      status: 'processed',
+      pullRequest: 'github.com/octo-org/agent-tools#42',
+      accepted: [{ id: 'fix-1', bug_id: 'bug-1' }]
+    });
+    expect(accepted).toEqual([{ submission_id: 'fix-1', reviewer_id: null, note: 'Merged on GitHub by hubot' }]);
+  });
+
+  it('accepts a fix only once when the delivery is replayed', async () => {
+    const body = await readFixture('pull_request.merged.json');
+    await deliver('pull_request', body);
+    const replayed = await deliver('pull_request', body);
+
+    expect(replayed.body.accepted).toEqual([]);
+    expect(accepted).toHaveLength(1);
+  });
+
+  it('ignores pull requests closed without merging', async () => {
+    const response = await deliver('pull_request', await readFixture('pull_request.closed.json'));
+
+    expect(response.body).toEqual({ status: 'ignored' });
+    expect(accepted).toHaveLength(0);
+  });
+
+  it('rejects deliveries with a bad signature', async () => {
+    const body = await readFixture('pull_request.merged.json');
+    const response = await deliver('pull_request', body, signGithubPayload('wrong-secret', body));
+
+    expect(response.status).toBe(401);
+    expect(accepted).toHaveLength(0);
+  });
+});
+
+describe('verifyGithubSignature', () => {
+  it('accepts only the signature of the exact body', () => {
+    const body = Buffer.from('{"zen":"Keep it logically awesome."}');
+    const signature = signGithubPayload(SECRET, body);
+
+    expect(verifyGithubSignature(SECRET, body, signature)).toBe(true);
+    expect(verifyGithubSignature(SECRET, Buffer.from(`${body} `), signature)).toBe(false);
+    expect(verifyGithubSignature(SECRET, body, undefined)).toBe(false);
+    expect(verifyGithubSignature(SECRET, body, 'sha256=short')).toBe(false);
+  });
+});
+
+describe('pullRequestKey', () => {
+  it.each([
+    ['https://github.com/Octo-Org/Agent-Tools/pull/42', 'github.com/octo-org/agent-tools#42'],
+    ['https://www.github.com/octo-org/agent-tools/pull/42/files?diff=split#top', 'github.com/octo-org/agent-tools#42'],
+    ['https://github.com/octo-org/agent-tools/pull/42/', 'github.com/octo-org/agent-tools#42']
+  ])('normalizes %s', (url, key) => {
+    expect(pullRequestKey(url)).toBe(key);
+  });
+
+  it.each(['https://github.com/octo-org/agent-tools/issues/42', 'not a url'])('returns null for %s', (url) => {
+    expect(pullRequestKey(url)).toBeNull();
+  });
+});
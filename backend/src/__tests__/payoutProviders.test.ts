@@ -0,0 +1,105 @@
+import { FakePayoutProvider, ManualPayoutProvider } from '../payoutProviders';
+import { Payout } from '../payouts';
+
+function testPayout(overrides: Partial<Payout> = {}): Payout {
+  return {
+    id: 'payout-1',
+    bug_id: 'bug-1',
+    fix_submission_id: null,
+    amount: 25,
+    payment_method: 'fake',
+    recipient_info: {},
+    status: 'approved',
+    idempotency_key: null,
+    created_by: null,
+    created_at: new Date(0).toISOString(),
+    updated_at: null,
+    paid_at: null,
+    failure_reason: null,
+    provider_reference: null,
+    provider_status: null,
+    reconciled_at: null,
+    ...overrides
+  };
+}
+
+describe('FakePayoutProvider', () => {
+  let now: number;
+  const createProvider = (failureRate = 0) =>
+    new FakePayoutProvider({ settleAfterMs: 1000, failureRate, random: () => 0.5, now: () => now });
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  it('keeps a transfer processing until it settles', async () => {
+    const provider = createProvider();
+    const { reference, status } = await provider.initiate(testPayout());
+
+    expect(status).toBe('processing');
+    now = 999;
+    expect((await provider.status(reference)).status).toBe('processing');
+    now = 1000;
+    expect(await provider.status(reference)).toEqual({ reference, status: 'paid' });
+  });
+
+  it('returns the transfer it already started when initiated again', async () => {
+    const provider = createProvider();
+    const first = await provider.initiate(testPayout());
+
+    expect((await provider.initiate(testPayout())).reference).toBe(first.reference);
+  });
+
+  it('fails transfers at the configured rate', async () => {
+    const provider = createProvider(0.6);
+    const { reference } = await provider.initiate(testPayout());
+
+    now = 1000;
+    expect(await provider.status(reference)).toMatchObject({ status: 'failed', failureReason: expect.any(String) });
+  });
+
+  it('lets the recipient pick the outcome', async () => {
+    const provider = createProvider(1);
+    const paid = await provider.initiate(testPayout({ id: 'payout-1', recipient_info: { simulate: 'pay' } }));
+    const failed = await createProvider(0).initiate(testPayout({ id: 'payout-2', recipient_info: { simulate: 'fail' } }));
+
+    now = 1000;
+    expect((await provider.status(paid.reference)).status).toBe('paid');
+    expect(failed.status).toBe('processing');
+  });
+
+  it('cancels transfers that are still processing', async () => {
+    const provider = createProvider();
+    const { reference } = await provider.initiate(testPayout());
+
+    expect((await provider.cancel(reference)).status).toBe('cancelled');
+    now = 1000;
+    expect((await provider.status(reference)).status).toBe('cancelled');
+  });
+
+  it('leaves settled transfers alone when cancelled', async () => {
+    const provider = createProvider();
+    const { reference } = await provider.initiate(testPayout());
+
+    now = 1000;
+    expect((await provider.cancel(reference)).status).toBe('paid');
+  });
+
+  it('reports transfers it forgot, e.g. after a restart, as failed', async () => {
+    const provider = createProvider();
+
+    expect(await provider.status('fake_forgotten')).toMatchObject({ reference: 'fake_forgotten', status: 'failed' });
+    expect(await provider.cancel('fake_forgotten')).toEqual({ reference: 'fake_forgotten', status: 'cancelled' });
+  });
+});
+
+describe('ManualPayoutProvider', () => {
+  it('keeps payouts processing until an admin settles them', async () => {
+    const provider = new ManualPayoutProvider();
+    const { reference, status } = await provider.initiate(testPayout({ payment_method: 'manual' }));
+
+    expect(reference).toBe('manual:payout-1');
+    expect(status).toBe('processing');
+    expect((await provider.status(reference)).status).toBe('processing');
+  });
+});
@@ -0,0 +1,207 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import * as payoutProviders from '../payoutProviders';
+import { Payout } from '../payouts';
+import { cancelProviderTransfer, reconcilePayouts } from '../payoutReconciliation';
+
+function testPayout(overrides: Partial<Payout> = {}): Payout {
+  return {
+    id: 'payout-1',
+    bug_id: 'bug-1',
+    fix_submission_id: null,
+    amount: 25,
+    payment_method: 'fake',
+    recipient_info: {},
+    status: 'approved',
+    idempotency_key: null,
+    created_by: null,
+    created_at: new Date(0).toISOString(),
+    updated_at: null,
+    paid_at: null,
+    failure_reason: null,
+    provider_reference: null,
+    provider_status: null,
+    reconciled_at: null,
+    ...overrides
+  };
+}
+
+/**
+ * Just enough of the Supabase client for reconciliation: payouts are read
+ * from `payouts`, provider state is written back to it and transitions go
+ * through the `transition_payout` rpc, which fails when `failTransitions` is set
+ */
+function fakeSupabase(payouts: Payout[], failTransitions = false) {
+  const updates: Array<{ id: string; values: Partial<Payout> }> = [];
+  const transitions: Array<Record<string, unknown>> = [];
+
+  const client = {
+    from() {
+      return {
+        select() {
+          let rows = payouts;
+          const query = {
+            in: () => query,
+            or: () => query,
+            order: () => query,
+            limit: () => query,
+            eq(column: keyof Payout, value: unknown) {
+              rows = rows.filter((row) => row[column] === value);
+              return query;
+            },
+            async maybeSingle() {
+              return { data: rows[0] ?? null, error: null };
+            },
+            then(resolve: (value: { data: Payout[]; error: null }) => unknown) {
+              return Promise.resolve({ data: rows, error: null }).then(resolve);
+            }
+          };
+          return query;
+        },
+        update(values: Partial<Payout>) {
+          return {
+            async eq(_column: string, id: string) {
+              updates.push({ id, values });
+              return { error: null };
+            }
+          };
+        }
+      };
+    },
+    async rpc(_name: string, args: Record<string, unknown>) {
+      if (failTransitions) {
+        return { data: null, error: { code: '23514', message: 'Cannot move payout from cancelled to paid' } };
+      }
+      transitions.push(args);
+      return { data: [{ id: args.target_payout_id, status: args.next_status }], error: null };
+    }
+  };
+
+  return { client: client as unknown as SupabaseClient, updates, transitions };
+}
+
+describe('payout reconciliation', () => {
+  let now: number;
+  let provider: payoutProviders.FakePayoutProvider;
+
+  beforeEach(() => {
+    now = 0;
+    provider = new payoutProviders.FakePayoutProvider({ settleAfterMs: 1000, failureRate: 0, now: () => now });
+    jest.spyOn(payoutProviders, 'getPayoutProvider').mockImplementation((name) => (name === 'fake' ? provider : undefined));
+    jest.spyOn(payoutProviders, 'payoutProviderNames').mockReturnValue(['fake']);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends approved payouts that have not been sent yet', async () => {
+    const { client, updates, transitions } = fakeSupabase([testPayout()]);
+
+    await expect(reconcilePayouts(client)).resolves.toEqual({ checked: 1, initiated: 1, settled: 0, errors: 0 });
+    expect(updates[0]).toMatchObject({ id: 'payout-1', values: { provider_status: 'processing' } });
+    expect(transitions).toHaveLength(0);
+  });
+
+  it('moves payouts to paid once the provider settles them', async () => {
+    const { reference } = await provider.initiate(testPayout());
+    const { client, transitions } = fakeSupabase([testPayout({ provider_reference: reference, provider_status: 'processing' })]);
+
+    now = 1000;
+    await expect(reconcilePayouts(client)).resolves.toMatchObject({ settled: 1, errors: 0 });
+    expect(transitions[0]).toMatchObject({
+      target_payout_id: 'payout-1',
+      next_status: 'paid',
+      actor_name: 'system:reconciliation',
+      details: { provider: 'fake', reference }
+    });
+  });
+
+  it('fails payouts whose transfer the provider no longer knows', async () => {
+    const { client, transitions } = fakeSupabase([testPayout({ provider_reference: 'fake_forgotten', provider_status: 'processing' })]);
+
+    await expect(reconcilePayouts(client)).resolves.toMatchObject({ settled: 1, errors: 0 });
+    expect(transitions[0]).toMatchObject({ next_status: 'failed' });
+  });
+
+  it('cancels transfers of payouts cancelled while they were processing', async () => {
+    const { reference } = await provider.initiate(testPayout());
+    const cancelled = testPayout({ status: 'cancelled', provider_reference: reference, provider_status: 'processing' });
+    const { client, updates, transitions } = fakeSupabase([cancelled]);
+
+    await reconcilePayouts(client);
+    expect(updates[0].values.provider_status).toBe('cancelled');
+    expect(transitions).toHaveLength(0);
+    now = 1000;
+    expect((await provider.status(reference)).status).toBe('cancelled');
+  });
+
+  it('counts payouts it could not move and carries on', async () => {
+    const { reference } = await provider.initiate(testPayout());
+    const payouts = [
+      testPayout({ provider_reference: reference, provider_status: 'processing' }),
+      testPayout({ id: 'payout-2', bug_id: 'bug-2' })
+    ];
+    const { client } = fakeSupabase(payouts, true);
+
+    now = 1000;
+    await expect(reconcilePayouts(client)).resolves.toEqual({ checked: 2, initiated: 1, settled: 0, errors: 1 });
+  });
+});
+
+describe('cancelProviderTransfer', () => {
+  let now: number;
+  let provider: payoutProviders.FakePayoutProvider;
+
+  beforeEach(() => {
+    now = 0;
+    provider = new payoutProviders.FakePayoutProvider({ settleAfterMs: 1000, failureRate: 0, now: () => now });
+    jest.spyOn(payoutProviders, 'getPayoutProvider').mockReturnValue(provider);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stops a transfer that is still processing', async () => {
+    const { reference } = await provider.initiate(testPayout());
+    const { client, updates } = fakeSupabase([testPayout({ provider_reference: reference })]);
+
+    await expect(cancelProviderTransfer(client, 'payout-1')).resolves.toBeUndefined();
+    expect(updates[0].values.provider_status).toBe('cancelled');
+  });
+
+  it('refuses to cancel a transfer the provider already settled', async () => {
+    const { reference } = await provider.initiate(testPayout());
+    const { client } = fakeSupabase([testPayout({ provider_reference: reference })]);
+
+    now = 1000;
+    await expect(cancelProviderTransfer(client, 'payout-1')).rejects.toMatchObject({ status: 409 });
+  });
+
+  it.each(['paid', 'failed'] as const)('leaves the transfer of a %s payout alone', async (status) => {
+    const { reference } = await provider.initiate(testPayout());
+    const { client, updates } = fakeSupabase([testPayout({ status, provider_reference: reference })]);
+
+    await expect(cancelProviderTransfer(client, 'payout-1')).rejects.toMatchObject({
+      status: 409,
+      message: `Cannot move a ${status} payout to cancelled`
+    });
+    expect(updates).toHaveLength(0);
+    expect((await provider.status(reference)).status).toBe('processing');
+  });
+
+  it('does nothing for a payout that is already cancelled', async () => {
+    const { reference } = await provider.initiate(testPayout());
+    const { client, updates } = fakeSupabase([testPayout({ status: 'cancelled', provider_reference: reference })]);
+
+    await expect(cancelProviderTransfer(client, 'payout-1')).resolves.toBeUndefined();
+    expect(updates).toHaveLength(0);
+  });
+
+  it('answers 404 for an unknown payout', async () => {
+    const { client } = fakeSupabase([]);
+
+    await expect(cancelProviderTransfer(client, 'missing')).rejects.toMatchObject({ status: 404 });
+  });
+});
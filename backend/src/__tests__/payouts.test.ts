@@ -0,0 +1,102 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { PayoutError, createPayout, transitionPayout } from '../payouts';
+
+type RpcResult = { data: unknown; error: { code?: string; message: string } | null };
+
+/**
+ * A client whose `rpc` answers with `result` and remembers what it was called with
+ */
+function rpcClient(result: RpcResult) {
+  const calls: Array<{ name: string; args: Record<string, unknown> }> = [];
+  const client = {
+    async rpc(name: string, args: Record<string, unknown>) {
+      calls.push({ name, args });
+      return result;
+    }
+  };
+  return { client: client as unknown as SupabaseClient, calls };
+}
+
+const actor = { adminId: 'admin-1', name: 'admin@example.com' };
+const payout = { id: 'payout-1', status: 'pending' };
+
+describe('createPayout', () => {
+  const options = { bugId: 'bug-1', amount: 25, paymentMethod: 'manual', recipientInfo: { email: 'dev@example.com' } };
+
+  it('creates the payout and its first ledger entry in one call', async () => {
+    const { client, calls } = rpcClient({ data: [payout], error: null });
+
+    await expect(createPayout(client, { ...options, idempotencyKey: 'key-1' }, actor)).resolves.toBe(payout);
+    expect(calls).toEqual([{
+      name: 'create_payout',
+      args: {
+        target_bug_id: 'bug-1',
+        payout_amount: 25,
+        method: 'manual',
+        recipient: { email: 'dev@example.com' },
+        idempotency: 'key-1',
+        admin: 'admin-1',
+        actor_name: 'admin@example.com',
+        note: null
+      }
+    }]);
+  });
+
+  it.each([
+    ['a bug without an accepted fix', { code: '23514', message: 'Bug has no accepted fix' }, 409, 'Bug has no accepted fix'],
+    ['a second active payout', { code: '23505', message: 'duplicate key' }, 409, 'This bug already has an active payout']
+  ])('rejects %s', async (_case, error, status, message) => {
+    const { client } = rpcClient({ data: null, error });
+
+    const rejection = createPayout(client, options, actor);
+    await expect(rejection).rejects.toBeInstanceOf(PayoutError);
+    await expect(rejection).rejects.toMatchObject({ status, message });
+  });
+
+  it('answers 404 for an unknown bug', async () => {
+    const { client } = rpcClient({ data: [], error: null });
+
+    await expect(createPayout(client, options, actor)).rejects.toMatchObject({ status: 404, message: 'Bug not found' });
+  });
+
+  it('passes other database errors through', async () => {
+    const error = { code: '08006', message: 'connection failure' };
+    const { client } = rpcClient({ data: null, error });
+
+    await expect(createPayout(client, options, actor)).rejects.toBe(error);
+  });
+});
+
+describe('transitionPayout', () => {
+  it('records the move with its actor and details', async () => {
+    const { client, calls } = rpcClient({ data: [{ ...payout, status: 'approved' }], error: null });
+
+    await transitionPayout(client, 'payout-1', 'approved', actor, { note: 'Looks good', metadata: { source: 'test' } });
+    expect(calls[0]).toEqual({
+      name: 'transition_payout',
+      args: {
+        target_payout_id: 'payout-1',
+        next_status: 'approved',
+        admin: 'admin-1',
+        actor_name: 'admin@example.com',
+        note: 'Looks good',
+        details: { source: 'test' }
+      }
+    });
+  });
+
+  it('rejects moves the state machine does not allow', async () => {
+    const { client } = rpcClient({ data: null, error: { code: '23514', message: 'Cannot move payout from paid to approved' } });
+
+    await expect(transitionPayout(client, 'payout-1', 'approved', actor)).rejects.toMatchObject({
+      status: 409,
+      message: 'Cannot move payout from paid to approved'
+    });
+  });
+
+  it('answers 404 for an unknown payout', async () => {
+    const { client } = rpcClient({ data: [], error: null });
+
+    await expect(transitionPayout(client, 'missing', 'approved', actor)).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import path from 'path';
+
+/**
+ * Where attachment files are stored and what may be uploaded
+ */
+export const ATTACHMENT_DIR = path.resolve(process.env.ATTACHMENT_DIR || 'uploads/attachments');
+export const MAX_ATTACHMENT_BYTES = Number(process.env.ATTACHMENT_MAX_BYTES) || 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_BUG = 20;
+export const ALLOWED_ATTACHMENT_TYPES = (
+  process.env.ATTACHMENT_ALLOWED_TYPES ||
+  'text/plain,text/csv,text/html,text/markdown,application/json,application/xml,application/pdf,application/zip,application/gzip,image/png,image/jpeg,image/gif,image/webp'
+).split(',').map((type) => type.trim());
+
+// Upload URLs stay valid long enough for a slow agent to send a large file
+const UPLOAD_URL_TTL_MS = 15 * 60 * 1000;
+
+let signingSecret = process.env.ATTACHMENT_SIGNING_SECRET;
+if (!signingSecret) {
+  console.warn('ATTACHMENT_SIGNING_SECRET is not set; attachment tokens will not survive a restart');
+  signingSecret = crypto.randomBytes(32).toString('hex');
+}
+
+function sign(value: string): string {
+  return crypto.createHmac('sha256', signingSecret as string).update(value).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * Given to whoever created a bug, so they can attach files to it
+ */
+export function createAttachmentToken(bugId: string): string {
+  return sign(`attach:${bugId}`);
+}
+
+export function verifyAttachmentToken(bugId: string, token: unknown): boolean {
+  return typeof token === 'string' && safeEqual(token, createAttachmentToken(bugId));
+}
+
+/**
+ * A presigned URL for uploading one attachment's content
+ */
+export function createUploadUrl(attachmentId: string): string {
+  const expires = Date.now() + UPLOAD_URL_TTL_MS;
+  const signature = sign(`upload:${attachmentId}:${expires}`);
+  return `/api/attachments/${attachmentId}/content?expires=${expires}&signature=${signature}`;
+}
+
+export function verifyUploadSignature(attachmentId: string, expires: unknown, signature: unknown): boolean {
+  if (typeof expires !== 'string' || typeof signature !== 'string') return false;
+  if (!(Number(expires) > Date.now())) return false;
+  return safeEqual(signature, sign(`upload:${attachmentId}:${expires}`));
+}
+
+/**
+ * The media type without parameters, e.g. `text/plain` for
+ * `text/plain; charset=utf-8`
+ */
+export function baseContentType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Strip directories and control characters from a client-supplied name
+ */
+export function sanitizeFilename(filename: string): string {
+  const base = filename.split(/[\\/]/).pop() || '';
+  const cleaned = base.replace(/[\x00-\x1f\x7f"]/g, '').trim();
+  return (cleaned || 'attachment').slice(0, 255);
+}
+
+/**
+ * Files are stored by ID, never by the uploaded name
+ */
+export function attachmentPath(bugId: string, attachmentId: string): string {
+  return path.join(bugId, attachmentId);
+}
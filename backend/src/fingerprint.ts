@@ -0,0 +1,63 @@
+import crypto from 'crypto';
+
+/**
+ * Fingerprints that identify "the same bug", so reports group the same way
+ * whether or not the client sent a fingerprint. The agent plugin's
+ * implementation (agent-plugin/src/fingerprint.ts) is the source of truth:
+ * change it first, regenerate agent-plugin/src/__tests__/fixtures/
+ * fingerprints.json, then update this copy until its tests pass again.
+ */
+
+const VOLATILE_PATTERNS: [RegExp, string][] = [
+  // ISO-8601 timestamps and dates
+  [/\d{4}-\d{2}-\d{2}(?:[t ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:z|[+-]\d{2}:?\d{2})?)?/gi, '<ts>'],
+  // Clock times
+  [/\b\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?\b/g, '<time>'],
+  // UUIDs
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>'],
+  // Hashes, request IDs and other long hex runs
+  [/\b(?:0x)?[0-9a-f]{8,}\b/gi, '<hex>'],
+  // Any remaining numbers (counters, durations, ports, ...)
+  [/\d+(?:\.\d+)?/g, '<n>']
+];
+
+const STACK_FRAME = /^\s*at\s+(?:(.+?)\s+\()?(.+?)(?::\d+){0,2}\)?\s*$/;
+
+function normalize(text: string): string {
+  let normalized = text.toLowerCase();
+  for (const [pattern, replacement] of VOLATILE_PATTERNS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+  return normalized.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The first `count` stack frames, without line/column numbers or directories
+ */
+function topStackFrames(stack: string, count: number = 3): string[] {
+  const frames: string[] = [];
+
+  for (const line of stack.split('\n')) {
+    const match = line.match(STACK_FRAME);
+    if (!match) continue;
+
+    const [, fn, location] = match;
+    const file = location.split(/[\\/]/).pop();
+    frames.push(fn ? `${fn} (${file})` : `${file}`);
+    if (frames.length >= count) break;
+  }
+
+  return frames;
+}
+
+/**
+ * The normalized error message, the top stack frames and the agent name,
+ * or the first line of the input when there is no error
+ */
+export function computeFingerprint(agentName: string, error?: string | null, input?: string | null): string {
+  const parts = error
+    ? [agentName, normalize(error.split('\n').find((line) => line.trim() && !STACK_FRAME.test(line)) || ''), ...topStackFrames(error)]
+    : [agentName, normalize((input || '').split('\n')[0])];
+
+  return crypto.createHash('sha256').update(parts.join('\n')).digest('hex').slice(0, 32);
+}
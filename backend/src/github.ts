@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+
+/**
+ * The `X-Hub-Signature-256` header GitHub sends for a webhook body
+ */
+export function signGithubPayload(secret: string, body: Buffer | string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+export function verifyGithubSignature(secret: string, body: Buffer, signature: unknown): boolean {
+  if (typeof signature !== 'string') return false;
+  const expected = Buffer.from(signGithubPayload(secret, body));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Identifies a pull request however its URL was written: `/files` or a
+ * trailing slash, query strings, fragments and letter case are ignored.
+ * Returns null for URLs that aren't pull requests.
+ */
+export function pullRequestKey(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const match = parsed.pathname.match(/^\/([^/]+)\/([^/]+)\/pull\/(\d+)(?:\/|$)/);
+  if (!match) return null;
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  const [, owner, repo, number] = match;
+  return `${host}/${owner.toLowerCase()}/${repo.toLowerCase()}#${number}`;
+}
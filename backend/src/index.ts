@@ -1,12 +1,15 @@
+// Load environment variables before the modules below read them
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
-import dotenv from 'dotenv';
 import { createClient } from '@supabase/supabase-js';
-
-// Load environment variables
-dotenv.config();
+import bugRoutes from './routes/bugs';
+import adminRoutes from './routes/admin';
+import attachmentRoutes from './routes/attachments';
+import integrationRoutes from './routes/integrations';
+import { startPayoutReconciliation } from './payoutReconciliation';
 
 // Initialize Express app
 const app = express();
@@ -21,7 +24,14 @@ const supabase = createClient(supabaseUrl, supabaseKey);
 app.use(cors());
 app.use(helmet());
 app.use(morgan('dev'));
-app.use(express.json());
+
+// Attachment content is raw bytes of any type, and webhook signatures cover
+// the raw body, so these routes are mounted before the JSON body parser
+app.use('/api/attachments', attachmentRoutes(supabase));
+app.use('/api/integrations', integrationRoutes(supabase));
+
+// Bug reports carry logs and traces; logs beyond this are uploaded in chunks
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '2mb' }));
 
 // Basic authentication middleware for admin routes
 const authenticate = (req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -39,20 +49,24 @@ const authenticate = (req: express.Request, res: express.Response, next: express
     username === process.env.ADMIN_USERNAME && 
     password === process.env.ADMIN_PASSWORD
   ) {
+    res.locals.adminUsername = username;
     next();
   } else {
     res.status(401).json({ error: 'Invalid credentials' });
   }
 };
 
-// Import routes
-import bugRoutes from './routes/bugs';
-import adminRoutes from './routes/admin';
-
 // Use routes
 app.use('/api/bugs', bugRoutes(supabase));
 app.use('/api/admin', authenticate, adminRoutes(supabase));
 
+// Sync approved payouts with their providers; 0 leaves it to
+// POST /api/admin/payouts/reconcile
+const payoutReconcileInterval = Number(process.env.PAYOUT_RECONCILE_INTERVAL_MS ?? 60 * 1000);
+if (payoutReconcileInterval > 0) {
+  startPayoutReconciliation(supabase, payoutReconcileInterval);
+}
+
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   res.status(200).json({ status: 'ok', timestamp: new Date().toISOString() });
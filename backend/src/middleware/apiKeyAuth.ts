@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export interface AgentApiKey {
+  id: string;
+  agent_name: string;
+  owner_id: string | null;
+}
+
+/**
+ * Keys are random and long, so an unsalted SHA-256 is enough to keep them
+ * out of the database while still allowing lookup by hash
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function readApiKey(req: Request): string | undefined {
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.slice('Bearer '.length).trim() || undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Middleware to verify an agent API key sent as `Authorization: Bearer <key>`.
+ * The verified key is available as `res.locals.apiKey`. Requests without a
+ * key are let through unless `required` is set; an invalid or revoked key is
+ * always rejected.
+ */
+export function agentApiKeyAuth(supabase: SupabaseClient, options: { required?: boolean } = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = readApiKey(req);
+
+    if (!key) {
+      if (options.required) {
+        return res.status(401).json({ error: 'API key required' });
+      }
+      return next();
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('agent_api_keys')
+        .select('id, agent_name, owner_id, revoked_at')
+        .eq('key_hash', hashApiKey(key))
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (!data) {
+        return res.status(401).json({ error: 'Invalid API key' });
+      }
+
+      if (data.revoked_at) {
+        return res.status(401).json({ error: 'API key has been revoked' });
+      }
+
+      res.locals.apiKey = {
+        id: data.id,
+        agent_name: data.agent_name,
+        owner_id: data.owner_id
+      } as AgentApiKey;
+
+      // Not awaited: a failed timestamp update should not block the report
+      supabase
+        .from('agent_api_keys')
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('id', data.id)
+        .then(({ error: updateError }) => {
+          if (updateError) console.error('Error updating API key last used time:', updateError);
+        });
+
+      next();
+    } catch (error) {
+      console.error('Error verifying API key:', error);
+      res.status(500).json({ error: 'Failed to verify API key' });
+    }
+  };
+}
@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import { Payout } from './payouts';
+
+/**
+ * Where a payout stands with the provider that sends the money. Only
+ * `processing` can still change.
+ */
+export type ProviderPayoutStatus = 'processing' | 'paid' | 'failed' | 'cancelled';
+
+export interface ProviderPayout {
+  /** The provider's ID for the transfer, stored on the payout */
+  reference: string;
+  status: ProviderPayoutStatus;
+  failureReason?: string;
+}
+
+/**
+ * Sends approved payouts to their recipients. `initiate` is called with the
+ * same payout again if storing the reference failed, so it must return the
+ * transfer it already started rather than start another.
+ */
+export interface PayoutProvider {
+  name: string;
+  initiate(payout: Payout): Promise<ProviderPayout>;
+  status(reference: string): Promise<ProviderPayout>;
+  /** Cancelling a transfer that already settled returns it unchanged */
+  cancel(reference: string): Promise<ProviderPayout>;
+}
+
+/**
+ * Payouts sent by hand outside of BugBoard. Transfers stay `processing`
+ * until an admin marks the payout paid or failed.
+ */
+export class ManualPayoutProvider implements PayoutProvider {
+  name = 'manual';
+
+  async initiate(payout: Payout): Promise<ProviderPayout> {
+    return { reference: `manual:${payout.id}`, status: 'processing' };
+  }
+
+  async status(reference: string): Promise<ProviderPayout> {
+    return { reference, status: 'processing' };
+  }
+
+  async cancel(reference: string): Promise<ProviderPayout> {
+    return { reference, status: 'cancelled' };
+  }
+}
+
+export interface FakePayoutProviderOptions {
+  /** How long a transfer stays `processing` */
+  settleAfterMs?: number;
+  /** Share of transfers that fail, from 0 to 1 */
+  failureRate?: number;
+  random?: () => number;
+  now?: () => number;
+}
+
+interface FakeTransfer {
+  reference: string;
+  settlesAt: number;
+  outcome: 'paid' | 'failed';
+  cancelled: boolean;
+}
+
+/**
+ * Pretends to send money, for development and tests. Transfers settle
+ * after a delay and some of them fail. A recipient with `simulate: 'fail'`
+ * or `simulate: 'pay'` in its info always gets that outcome. State is kept
+ * in memory, so transfers are forgotten on restart; a forgotten transfer
+ * reads as failed, and cancelling it succeeds.
+ */
+export class FakePayoutProvider implements PayoutProvider {
+  name = 'fake';
+
+  private transfers = new Map<string, FakeTransfer>();
+  private references = new Map<string, string>();
+  private settleAfterMs: number;
+  private failureRate: number;
+  private random: () => number;
+  private now: () => number;
+
+  constructor(options: FakePayoutProviderOptions = {}) {
+    this.settleAfterMs = options.settleAfterMs ?? 30 * 1000;
+    this.failureRate = options.failureRate ?? 0.1;
+    this.random = options.random || Math.random;
+    this.now = options.now || Date.now;
+  }
+
+  async initiate(payout: Payout): Promise<ProviderPayout> {
+    const existing = this.references.get(payout.id);
+    if (existing) {
+      return this.status(existing);
+    }
+
+    const simulate = (payout.recipient_info as { simulate?: string } | null)?.simulate;
+    const fails = simulate ? simulate === 'fail' : this.random() < this.failureRate;
+
+    const transfer: FakeTransfer = {
+      reference: `fake_${crypto.randomUUID()}`,
+      settlesAt: this.now() + this.settleAfterMs,
+      outcome: fails ? 'failed' : 'paid',
+      cancelled: false
+    };
+    this.transfers.set(transfer.reference, transfer);
+    this.references.set(payout.id, transfer.reference);
+
+    return this.status(transfer.reference);
+  }
+
+  async status(reference: string): Promise<ProviderPayout> {
+    const transfer = this.transfers.get(reference);
+    if (!transfer) {
+      return { reference, status: 'failed', failureReason: 'Transfer not found, the fake provider forgets transfers on restart' };
+    }
+
+    if (transfer.cancelled) {
+      return { reference, status: 'cancelled' };
+    }
+    if (this.now() < transfer.settlesAt) {
+      return { reference, status: 'processing' };
+    }
+    if (transfer.outcome === 'failed') {
+      return { reference, status: 'failed', failureReason: 'Simulated failure: recipient account rejected the transfer' };
+    }
+    return { reference, status: 'paid' };
+  }
+
+  async cancel(reference: string): Promise<ProviderPayout> {
+    const transfer = this.transfers.get(reference);
+    if (!transfer) {
+      return { reference, status: 'cancelled' };
+    }
+
+    const current = await this.status(reference);
+    if (current.status === 'processing') {
+      transfer.cancelled = true;
+      return { reference, status: 'cancelled' };
+    }
+    return current;
+  }
+}
+
+/**
+ * The providers named in PAYOUT_PROVIDERS, keyed by name. The first one is
+ * used when a payout doesn't name one.
+ */
+const providers = new Map<string, PayoutProvider>();
+
+for (const name of (process.env.PAYOUT_PROVIDERS || 'manual').split(',').map((value) => value.trim())) {
+  if (name === 'manual') {
+    providers.set(name, new ManualPayoutProvider());
+  } else if (name === 'fake') {
+    providers.set(name, new FakePayoutProvider({
+      settleAfterMs: process.env.FAKE_PAYOUT_SETTLE_MS ? Number(process.env.FAKE_PAYOUT_SETTLE_MS) : undefined,
+      failureRate: process.env.FAKE_PAYOUT_FAILURE_RATE ? Number(process.env.FAKE_PAYOUT_FAILURE_RATE) : undefined
+    }));
+  } else if (name) {
+    console.warn(`Unknown payout provider "${name}" in PAYOUT_PROVIDERS`);
+  }
+}
+
+if (providers.size === 0) {
+  providers.set('manual', new ManualPayoutProvider());
+}
+
+export const DEFAULT_PAYOUT_PROVIDER = Array.from(providers.keys())[0];
+
+export function getPayoutProvider(name: string): PayoutProvider | undefined {
+  return providers.get(name);
+}
+
+export function payoutProviderNames(): string[] {
+  return Array.from(providers.keys());
+}
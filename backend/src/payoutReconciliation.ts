@@ -0,0 +1,157 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CANCELLABLE_PAYOUT_STATUSES, Payout, PayoutActor, PayoutError, transitionPayout } from './payouts';
+import { ProviderPayout, getPayoutProvider, payoutProviderNames } from './payoutProviders';
+
+/**
+ * Ledger entries made by reconciliation are attributed to this actor
+ */
+export const RECONCILIATION_ACTOR: PayoutActor = { name: 'system:reconciliation' };
+
+// Payouts looked at per run, least recently reconciled first
+const RECONCILE_BATCH_SIZE = 100;
+
+export interface ReconciliationResult {
+  checked: number;
+  initiated: number;
+  settled: number;
+  errors: number;
+}
+
+async function recordProviderState(supabase: SupabaseClient, payoutId: string, state: ProviderPayout) {
+  const { error } = await supabase
+    .from('payouts')
+    .update({
+      provider_reference: state.reference,
+      provider_status: state.status,
+      reconciled_at: new Date().toISOString()
+    })
+    .eq('id', payoutId);
+
+  if (error) throw error;
+}
+
+/**
+ * Bring one payout in line with its provider. Approved payouts are sent if
+ * they haven't been yet, and moved to paid, failed or cancelled once the
+ * provider settles them. Payouts cancelled here while the provider was still
+ * sending them are cancelled at the provider.
+ */
+async function reconcilePayout(supabase: SupabaseClient, payout: Payout, result: ReconciliationResult) {
+  const provider = getPayoutProvider(payout.payment_method);
+  if (!provider) return;
+
+  let state: ProviderPayout;
+  if (!payout.provider_reference) {
+    state = await provider.initiate(payout);
+    result.initiated++;
+  } else if (payout.status === 'cancelled') {
+    state = await provider.cancel(payout.provider_reference);
+    if (state.status !== 'cancelled') {
+      console.error(`Payout ${payout.id} was cancelled but ${provider.name} had already settled it as ${state.status}`);
+    }
+  } else {
+    state = await provider.status(payout.provider_reference);
+  }
+
+  await recordProviderState(supabase, payout.id, state);
+
+  if (payout.status === 'approved' && state.status !== 'processing') {
+    await transitionPayout(supabase, payout.id, state.status, RECONCILIATION_ACTOR, {
+      note: state.failureReason || `Reported ${state.status} by ${provider.name}`,
+      metadata: { provider: provider.name, reference: state.reference }
+    });
+    result.settled++;
+  }
+}
+
+/**
+ * Sync provider state onto every payout that is waiting on a provider
+ */
+export async function reconcilePayouts(supabase: SupabaseClient): Promise<ReconciliationResult> {
+  const { data, error } = await supabase
+    .from('payouts')
+    .select('*')
+    // Payouts recorded with a free-form payment method are settled by hand
+    .in('payment_method', payoutProviderNames())
+    .or('status.eq.approved,and(status.eq.cancelled,provider_status.eq.processing)')
+    .order('reconciled_at', { ascending: true, nullsFirst: true })
+    .limit(RECONCILE_BATCH_SIZE);
+
+  if (error) throw error;
+
+  const result: ReconciliationResult = { checked: 0, initiated: 0, settled: 0, errors: 0 };
+
+  for (const payout of (data || []) as Payout[]) {
+    result.checked++;
+    try {
+      await reconcilePayout(supabase, payout, result);
+    } catch (err) {
+      // An admin may have moved the payout meanwhile; it is picked up again
+      // on the next run if it still needs to be
+      result.errors++;
+      console.error(`Error reconciling payout ${payout.id}:`, err);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Run reconcilePayouts every `intervalMs`, skipping a run while the last
+ * one is still going
+ */
+export function startPayoutReconciliation(supabase: SupabaseClient, intervalMs: number): NodeJS.Timeout {
+  let running = false;
+
+  return setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await reconcilePayouts(supabase);
+      if (result.initiated || result.settled || result.errors) {
+        console.log('Payout reconciliation:', result);
+      }
+    } catch (error) {
+      console.error('Error reconciling payouts:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+}
+
+/**
+ * Stop a payout's transfer before the payout is cancelled. Throws a
+ * PayoutError if the payout can't be cancelled or the provider has already
+ * settled it; the provider is only asked once the move is known to be allowed.
+ */
+export async function cancelProviderTransfer(supabase: SupabaseClient, payoutId: string): Promise<void> {
+  const { data: payout, error } = await supabase
+    .from('payouts')
+    .select('*')
+    .eq('id', payoutId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!payout) {
+    throw new PayoutError('Payout not found', 404);
+  }
+
+  // Cancelling again is a no-op; reconciliation stops a transfer that was
+  // still processing
+  if (payout.status === 'cancelled') return;
+
+  if (!CANCELLABLE_PAYOUT_STATUSES.includes(payout.status)) {
+    throw new PayoutError(`Cannot move a ${payout.status} payout to cancelled`, 409);
+  }
+
+  const provider = getPayoutProvider(payout.payment_method);
+  if (!provider || !payout.provider_reference) return;
+
+  const state = await provider.cancel(payout.provider_reference);
+  await recordProviderState(supabase, payout.id, state);
+
+  if (state.status !== 'cancelled') {
+    throw new PayoutError(`This payout was already ${state.status} by ${provider.name}`, 409);
+  }
+}
@@ -0,0 +1,132 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Payouts move pending -> approved -> paid | failed, and can be cancelled
+ * until they are paid. The database functions in the payout ledger
+ * migration enforce this and record every move in payout_transitions.
+ */
+export type PayoutStatus = 'pending' | 'approved' | 'paid' | 'failed' | 'cancelled';
+
+export const PAYOUT_STATUSES: PayoutStatus[] = ['pending', 'approved', 'paid', 'failed', 'cancelled'];
+
+/**
+ * Statuses a payout can be cancelled from
+ */
+export const CANCELLABLE_PAYOUT_STATUSES: PayoutStatus[] = ['pending', 'approved'];
+
+export interface Payout {
+  id: string;
+  bug_id: string;
+  fix_submission_id: string | null;
+  amount: number;
+  payment_method: string;
+  recipient_info: unknown;
+  status: PayoutStatus;
+  idempotency_key: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string | null;
+  paid_at: string | null;
+  failure_reason: string | null;
+  /** The transfer at the provider named by payment_method, once sent */
+  provider_reference: string | null;
+  provider_status: 'processing' | 'paid' | 'failed' | 'cancelled' | null;
+  reconciled_at: string | null;
+}
+
+/**
+ * Who changed a payout, as recorded in the ledger. `adminId` is the
+ * admin's user ID when there is one.
+ */
+export interface PayoutActor {
+  adminId?: string | null;
+  name: string;
+}
+
+/**
+ * A payout request that can't be carried out, with the HTTP status to
+ * answer it with
+ */
+export class PayoutError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'PayoutError';
+  }
+}
+
+// Raised by the payout functions for invalid moves and duplicate payouts
+const CHECK_VIOLATION = '23514';
+const UNIQUE_VIOLATION = '23505';
+
+function payoutError(error: { code?: string; message: string }): unknown {
+  if (error.code === CHECK_VIOLATION) return new PayoutError(error.message, 409);
+  if (error.code === UNIQUE_VIOLATION) return new PayoutError('This bug already has an active payout', 409);
+  return error;
+}
+
+export interface CreatePayoutOptions {
+  bugId: string;
+  amount: number;
+  paymentMethod: string;
+  recipientInfo: unknown;
+  /** Creating again with the same key returns the first payout */
+  idempotencyKey?: string;
+  note?: string;
+}
+
+/**
+ * Create a pending payout for a bug with an accepted fix
+ */
+export async function createPayout(
+  supabase: SupabaseClient,
+  options: CreatePayoutOptions,
+  actor: PayoutActor
+): Promise<Payout> {
+  const { data, error } = await supabase.rpc('create_payout', {
+    target_bug_id: options.bugId,
+    payout_amount: options.amount,
+    method: options.paymentMethod,
+    recipient: options.recipientInfo ?? null,
+    idempotency: options.idempotencyKey || null,
+    admin: actor.adminId || null,
+    actor_name: actor.name,
+    note: options.note || null
+  });
+
+  if (error) throw payoutError(error);
+
+  if (!data || data.length === 0) {
+    throw new PayoutError('Bug not found', 404);
+  }
+
+  return data[0];
+}
+
+/**
+ * Move a payout to `status`. Moving it to the status it already has is a
+ * no-op, so callers can retry.
+ */
+export async function transitionPayout(
+  supabase: SupabaseClient,
+  payoutId: string,
+  status: PayoutStatus,
+  actor: PayoutActor,
+  details: { note?: string; metadata?: Record<string, unknown> } = {}
+): Promise<Payout> {
+  const { data, error } = await supabase.rpc('transition_payout', {
+    target_payout_id: payoutId,
+    next_status: status,
+    admin: actor.adminId || null,
+    actor_name: actor.name,
+    note: details.note || null,
+    details: details.metadata || null
+  });
+
+  if (error) throw payoutError(error);
+
+  if (!data || data.length === 0) {
+    throw new PayoutError('Payout not found', 404);
+  }
+
+  return data[0];
+}
@@ -1,5 +1,8 @@
 import express from 'express';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { PAYOUT_STATUSES, PayoutActor, PayoutError, createPayout, transitionPayout } from '../payouts';
+import { DEFAULT_PAYOUT_PROVIDER, getPayoutProvider, payoutProviderNames } from '../payoutProviders';
+import { cancelProviderTransfer, reconcilePayouts } from '../payoutReconciliation';
 
 export default function adminRoutes(supabase: SupabaseClient) {
   const router = express.Router();
@@ -64,63 +67,234 @@ export default function adminRoutes(supabase: SupabaseClient) {
     }
   });
 
-  // Add payout to a resolved bug
+  // Payout ledger entries and fix reviews made through this API are
+  // attributed to the dashboard user the frontend names in X-Acting-User-Id
+  // and X-Acting-User-Email, or else to the basic-auth admin user, who has no
+  // user ID to record as a reviewer
+  const adminActor = (req: express.Request, res: express.Response): PayoutActor => {
+    const userId = req.get('X-Acting-User-Id');
+    return userId
+      ? { adminId: userId, name: req.get('X-Acting-User-Email') || userId }
+      : { name: `admin:${res.locals.adminUsername || 'unknown'}` };
+  };
+
+  // Add payout to a bug with an accepted fix. Send an Idempotency-Key header
+  // to make retries safe. `paymentMethod` names the payout provider that
+  // sends it once approved.
   router.post('/bugs/:id/payout', async (req, res) => {
     try {
       const { id } = req.params;
-      const { amount, paymentMethod, recipientInfo } = req.body;
+      const { amount, recipientInfo, note } = req.body;
+      const paymentMethod = req.body.paymentMethod || DEFAULT_PAYOUT_PROVIDER;
+      const idempotencyKey = req.get('Idempotency-Key') || req.body.idempotencyKey;
       
       // Validate required fields
-      if (!amount || !paymentMethod || !recipientInfo) {
+      if (!amount || !recipientInfo) {
         return res.status(400).json({ error: 'Missing required payout fields' });
       }
       
-      // First check if the bug exists and is resolved
-      const { data: bugData, error: fetchError } = await supabase
-        .from('bugs')
-        .select('status')
-        .eq('id', id)
-        .single();
-        
-      if (fetchError) throw fetchError;
+      if (typeof amount !== 'number' || !(amount > 0)) {
+        return res.status(400).json({ error: 'Payout amount must be a positive number' });
+      }
       
-      if (!bugData) {
-        return res.status(404).json({ error: 'Bug not found' });
+      if (!getPayoutProvider(paymentMethod)) {
+        return res.status(400).json({ error: `Payment method must be one of ${payoutProviderNames().join(', ')}` });
+      }
+      
+      if (typeof recipientInfo !== 'object' || Array.isArray(recipientInfo)) {
+        return res.status(400).json({ error: 'Recipient info must be an object' });
       }
       
-      if (bugData.status !== 'resolved') {
-        return res.status(400).json({ error: 'Cannot add payout to unresolved bug' });
+      const payout = await createPayout(supabase, {
+        bugId: id,
+        amount,
+        paymentMethod,
+        recipientInfo,
+        idempotencyKey,
+        note
+      }, adminActor(req, res));
+      
+      res.status(201).json(payout);
+    } catch (error) {
+      if (error instanceof PayoutError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error creating payout:', error);
+      res.status(500).json({ error: 'Failed to create payout' });
+    }
+  });
+
+  // Get payouts, optionally filtered by status
+  router.get('/payouts', async (req, res) => {
+    try {
+      const { status } = req.query;
+      
+      let query = supabase
+        .from('payouts')
+        .select('*, bug:bugs(id, title, agent_name, bounty)')
+        .order('created_at', { ascending: false });
+      
+      if (status) {
+        query = query.eq('status', status);
       }
       
-      // Create a payout record
+      const { data, error } = await query;
+
+      if (error) throw error;
+      
+      res.status(200).json(data);
+    } catch (error) {
+      console.error('Error fetching payouts:', error);
+      res.status(500).json({ error: 'Failed to fetch payouts' });
+    }
+  });
+
+  // List the configured payout providers
+  router.get('/payout-providers', (req, res) => {
+    res.status(200).json({ providers: payoutProviderNames(), default: DEFAULT_PAYOUT_PROVIDER });
+  });
+
+  // Sync payouts with their providers now instead of waiting for the
+  // scheduled run
+  router.post('/payouts/reconcile', async (req, res) => {
+    try {
+      const result = await reconcilePayouts(supabase);
+      
+      res.status(200).json(result);
+    } catch (error) {
+      console.error('Error reconciling payouts:', error);
+      res.status(500).json({ error: 'Failed to reconcile payouts' });
+    }
+  });
+
+  // Get a payout with its ledger of transitions
+  router.get('/payouts/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
       const { data, error } = await supabase
         .from('payouts')
-        .insert([
-          {
-            bug_id: id,
-            amount,
-            payment_method: paymentMethod,
-            recipient_info: recipientInfo,
-            status: 'pending',
-            created_at: new Date().toISOString()
-          }
-        ])
-        .select();
+        .select('*, bug:bugs(id, title, agent_name, bounty), transitions:payout_transitions(*)')
+        .eq('id', id)
+        .order('created_at', { foreignTable: 'payout_transitions', ascending: true })
+        .maybeSingle();
 
       if (error) throw error;
       
-      // Update the bug with payout information
-      await supabase
-        .from('bugs')
+      if (!data) {
+        return res.status(404).json({ error: 'Payout not found' });
+      }
+      
+      res.status(200).json(data);
+    } catch (error) {
+      console.error('Error fetching payout:', error);
+      res.status(500).json({ error: 'Failed to fetch payout' });
+    }
+  });
+
+  // Move a payout to another status, e.g. approve it or mark it paid
+  router.post('/payouts/:id/transitions', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { status, note } = req.body;
+      
+      if (!PAYOUT_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `Status must be one of ${PAYOUT_STATUSES.join(', ')}` });
+      }
+      
+      if (status === 'cancelled') {
+        await cancelProviderTransfer(supabase, id);
+      }
+      
+      const payout = await transitionPayout(supabase, id, status, adminActor(req, res), { note });
+      
+      res.status(200).json(payout);
+    } catch (error) {
+      if (error instanceof PayoutError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error updating payout:', error);
+      res.status(500).json({ error: 'Failed to update payout' });
+    }
+  });
+
+  // Get fix submissions, pending ones by default
+  router.get('/fix-submissions', async (req, res) => {
+    try {
+      const status = req.query.status || 'pending';
+      
+      let query = supabase
+        .from('fix_submissions')
+        .select('*, bug:bugs(id, title, agent_name, status, bounty)')
+        .order('created_at', { ascending: true });
+      
+      if (status !== 'all') {
+        query = query.eq('status', status);
+      }
+      
+      const { data, error } = await query;
+
+      if (error) throw error;
+      
+      res.status(200).json(data);
+    } catch (error) {
+      console.error('Error fetching fix submissions:', error);
+      res.status(500).json({ error: 'Failed to fetch fix submissions' });
+    }
+  });
+
+  // Accept a fix submission, resolving its bug
+  router.post('/fix-submissions/:id/accept', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { note } = req.body;
+      
+      const { data, error } = await supabase.rpc('accept_fix_submission', {
+        submission_id: id,
+        reviewer_id: adminActor(req, res).adminId || null,
+        note: note || null
+      });
+
+      if (error) throw error;
+      
+      if (!data || data.length === 0) {
+        return res.status(409).json({ error: 'Only pending fixes for bugs without an accepted fix can be accepted' });
+      }
+      
+      res.status(200).json(data[0]);
+    } catch (error) {
+      console.error('Error accepting fix submission:', error);
+      res.status(500).json({ error: 'Failed to accept fix submission' });
+    }
+  });
+
+  // Reject a pending fix submission
+  router.post('/fix-submissions/:id/reject', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { note } = req.body;
+      
+      const { data, error } = await supabase
+        .from('fix_submissions')
         .update({
-          payout_status: 'pending'
+          status: 'rejected',
+          reviewed_by: adminActor(req, res).adminId || null,
+          reviewed_at: new Date().toISOString(),
+          review_note: note || null
         })
-        .eq('id', id);
+        .eq('id', id)
+        .eq('status', 'pending')
+        .select();
+
+      if (error) throw error;
       
-      res.status(201).json(data[0]);
+      if (!data || data.length === 0) {
+        return res.status(409).json({ error: 'Only pending fixes can be rejected' });
+      }
+      
+      res.status(200).json(data[0]);
     } catch (error) {
-      console.error('Error creating payout:', error);
-      res.status(500).json({ error: 'Failed to create payout' });
+      console.error('Error rejecting fix submission:', error);
+      res.status(500).json({ error: 'Failed to reject fix submission' });
     }
   });
 
@@ -0,0 +1,128 @@
+import express from 'express';
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  ATTACHMENT_DIR,
+  MAX_ATTACHMENT_BYTES,
+  baseContentType,
+  verifyUploadSignature
+} from '../attachments';
+
+export default function attachmentRoutes(supabase: SupabaseClient) {
+  const router = express.Router();
+
+  // Upload an attachment's content to the presigned URL from
+  // POST /api/bugs/:id/attachments
+  router.put(
+    '/:id/content',
+    express.raw({ type: () => true, limit: MAX_ATTACHMENT_BYTES }),
+    async (req, res) => {
+      try {
+        const { id } = req.params;
+        
+        if (!verifyUploadSignature(id, req.query.expires, req.query.signature)) {
+          return res.status(403).json({ error: 'Invalid or expired upload URL' });
+        }
+        
+        const { data: attachment, error: fetchError } = await supabase
+          .from('attachments')
+          .select('id, filepath, filetype, filesize, uploaded_at')
+          .eq('id', id)
+          .maybeSingle();
+          
+        if (fetchError) throw fetchError;
+        
+        if (!attachment) {
+          return res.status(404).json({ error: 'Attachment not found' });
+        }
+        
+        if (attachment.uploaded_at) {
+          return res.status(409).json({ error: 'Attachment has already been uploaded' });
+        }
+        
+        const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+        
+        // The content must be what was declared when the URL was issued
+        if (body.length !== attachment.filesize) {
+          return res.status(400).json({ error: 'Attachment size does not match' });
+        }
+        
+        if (baseContentType(req.headers['content-type'] || '') !== attachment.filetype) {
+          return res.status(400).json({ error: 'Attachment type does not match' });
+        }
+        
+        const filePath = path.join(ATTACHMENT_DIR, attachment.filepath);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, body);
+        
+        const { data, error } = await supabase
+          .from('attachments')
+          .update({ uploaded_at: new Date().toISOString() })
+          .eq('id', id)
+          .select('id, bug_id, filename, filetype, filesize, created_at, uploaded_at');
+
+        if (error) throw error;
+        
+        res.status(200).json(data[0]);
+      } catch (error) {
+        console.error('Error uploading attachment:', error);
+        res.status(500).json({ error: 'Failed to upload attachment' });
+      }
+    }
+  );
+
+  // Download an attachment
+  router.get('/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { data: attachment, error } = await supabase
+        .from('attachments')
+        .select('filename, filepath, filetype, filesize, uploaded_at')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      
+      if (!attachment || !attachment.uploaded_at) {
+        return res.status(404).json({ error: 'Attachment not found' });
+      }
+      
+      const filePath = path.join(ATTACHMENT_DIR, attachment.filepath);
+      try {
+        await fs.access(filePath);
+      } catch {
+        return res.status(404).json({ error: 'Attachment file is missing' });
+      }
+      
+      // Always a download, so uploaded HTML or SVG is never rendered inline
+      res.setHeader('Content-Type', attachment.filetype || 'application/octet-stream');
+      res.setHeader('Content-Length', String(attachment.filesize));
+      const asciiName = attachment.filename.replace(/[^\x20-\x7e]/g, '_');
+      res.setHeader('Content-Disposition', `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`);
+
+      const stream = createReadStream(filePath);
+      // The file can disappear or become unreadable after the check above
+      stream.on('error', (streamError: NodeJS.ErrnoException) => {
+        if (res.headersSent) {
+          res.destroy(streamError);
+          return;
+        }
+        res.removeHeader('Content-Length');
+        res.removeHeader('Content-Disposition');
+        if (streamError.code === 'ENOENT') {
+          res.status(404).json({ error: 'Attachment file is missing' });
+        } else {
+          console.error('Error reading attachment:', streamError);
+          res.status(500).json({ error: 'Failed to download attachment' });
+        }
+      });
+      stream.pipe(res);
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+      res.status(500).json({ error: 'Failed to download attachment' });
+    }
+  });
+
+  return router;
+}
@@ -1,16 +1,91 @@
 import express from 'express';
+import crypto from 'crypto';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { AgentApiKey, agentApiKeyAuth } from '../middleware/apiKeyAuth';
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_BUG,
+  attachmentPath,
+  baseContentType,
+  createAttachmentToken,
+  createUploadUrl,
+  sanitizeFilename,
+  verifyAttachmentToken
+} from '../attachments';
+import { computeFingerprint } from '../fingerprint';
+
+// Limits for chunked log uploads
+const MAX_LOG_CHUNKS = 200;
+const MAX_LOG_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+const MAX_CORRELATION_ID_LENGTH = 128;
+const MAX_FINGERPRINT_LENGTH = 128;
+
+// Reports matching a bug in one of these states count as occurrences of it;
+// anything else, e.g. a regression of a resolved bug, opens a new bug
+const OPEN_STATUSES = ['open', 'in_progress'];
+
+// Submitters' emails are only shown to admins
+const FIX_SUBMISSION_COLUMNS = 'id, bug_id, submitter_name, pr_url, explanation, status, reviewed_at, review_note, created_at';
+
+const UNIQUE_VIOLATION = '23505';
+
+const DEFAULT_OCCURRENCE_LIMIT = 50;
+const MAX_OCCURRENCE_LIMIT = 200;
 
 export default function bugRoutes(supabase: SupabaseClient) {
   const router = express.Router();
+  
+  // Agents authenticate with an API key; anonymous reports are accepted
+  // unless REQUIRE_AGENT_API_KEY is set
+  const requireApiKey = process.env.REQUIRE_AGENT_API_KEY === 'true';
+
+  /**
+   * IDs of the bugs with a report from this run or session. A report that
+   * was grouped into a bug opened by an earlier run is only recorded as an
+   * occurrence of it.
+   */
+  const findCorrelatedBugIds = async (column: 'run_id' | 'session_id', value: string): Promise<string[]> => {
+    const [bugs, occurrences] = await Promise.all([
+      supabase.from('bugs').select('id').eq(column, value),
+      supabase.from('bug_occurrences').select('bug_id').eq(column, value)
+    ]);
 
-  // Get all bugs
+    if (bugs.error) throw bugs.error;
+    if (occurrences.error) throw occurrences.error;
+
+    const ids = new Set<string>();
+    for (const bug of bugs.data || []) ids.add(bug.id);
+    for (const occurrence of occurrences.data || []) ids.add(occurrence.bug_id);
+    return Array.from(ids);
+  };
+
+  // Get all bugs, optionally only those with a report from one agent run or
+  // session. `sort=frequency` lists the most reported bugs first.
   router.get('/', async (req, res) => {
     try {
-      const { data, error } = await supabase
+      const { runId, sessionId, sort } = req.query;
+      
+      let query = supabase
         .from('bugs')
-        .select('*')
-        .order('created_at', { ascending: false });
+        .select('*');
+      
+      query = sort === 'frequency'
+        ? query
+          .order('occurrence_count', { ascending: false })
+          .order('last_seen', { ascending: false, nullsFirst: false })
+        : query.order('created_at', { ascending: false });
+      
+      if (typeof runId === 'string' && runId) {
+        query = query.in('id', await findCorrelatedBugIds('run_id', runId));
+      }
+      
+      if (typeof sessionId === 'string' && sessionId) {
+        query = query.in('id', await findCorrelatedBugIds('session_id', sessionId));
+      }
+      
+      const { data, error } = await query;
 
       if (error) throw error;
       
@@ -44,82 +119,492 @@ export default function bugRoutes(supabase: SupabaseClient) {
     }
   });
 
+  // List the reports grouped into a bug, newest first
+  router.get('/:id/occurrences', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const limit = Math.min(Number(req.query.limit) || DEFAULT_OCCURRENCE_LIMIT, MAX_OCCURRENCE_LIMIT);
+      
+      const { data, error } = await supabase
+        .from('bug_occurrences')
+        .select('id, input, error_message, log_size, run_id, session_id, span_id, occurred_at')
+        .eq('bug_id', id)
+        .order('occurred_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      
+      res.status(200).json(data);
+    } catch (error) {
+      console.error('Error fetching bug occurrences:', error);
+      res.status(500).json({ error: 'Failed to fetch bug occurrences' });
+    }
+  });
+
+  /**
+   * Reassemble chunked logs. Returns the logs, or the error to respond with
+   * when the upload is missing, incomplete or belongs to another key.
+   */
+  const readLogUpload = async (
+    uploadId: string,
+    apiKey: AgentApiKey | undefined
+  ): Promise<string | { status: number; error: string }> => {
+    const { data: upload, error: uploadError } = await supabase
+      .from('log_uploads')
+      .select('id, chunk_count, total_bytes, api_key_id')
+      .eq('id', uploadId)
+      .maybeSingle();
+
+    if (uploadError) throw uploadError;
+
+    if (!upload || upload.api_key_id !== (apiKey?.id || null)) {
+      return { status: 400, error: 'Log upload not found' };
+    }
+
+    const { data: chunks, error: chunksError } = await supabase
+      .from('log_upload_chunks')
+      .select('chunk_index, data')
+      .eq('upload_id', uploadId)
+      .order('chunk_index', { ascending: true });
+
+    if (chunksError) throw chunksError;
+
+    const logs = (chunks || []).map((chunk) => chunk.data).join('');
+    if ((chunks || []).length !== upload.chunk_count || Buffer.byteLength(logs, 'utf-8') !== Number(upload.total_bytes)) {
+      return { status: 400, error: 'Log upload is incomplete' };
+    }
+
+    return logs;
+  };
+
+  /**
+   * The open bug a report with this fingerprint counts against, if any
+   */
+  const findOpenBug = async (agentName: string, fingerprint: string): Promise<{ id: string } | null> => {
+    const { data, error } = await supabase
+      .from('bugs')
+      .select('id')
+      .eq('agent_name', agentName)
+      .eq('fingerprint', fingerprint)
+      .in('status', OPEN_STATUSES)
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  };
+
+  // Start a chunked log upload for logs too large for a single report
+  router.post('/log-uploads', agentApiKeyAuth(supabase, { required: requireApiKey }), async (req, res) => {
+    try {
+      const { chunkCount, totalBytes } = req.body;
+      
+      if (!Number.isInteger(chunkCount) || chunkCount < 1 || chunkCount > MAX_LOG_CHUNKS) {
+        return res.status(400).json({ error: 'Invalid chunk count' });
+      }
+      
+      if (!Number.isInteger(totalBytes) || totalBytes < 1 || totalBytes > MAX_LOG_UPLOAD_BYTES) {
+        return res.status(400).json({ error: 'Invalid log size' });
+      }
+      
+      const apiKey = res.locals.apiKey as AgentApiKey | undefined;
+      const { data, error } = await supabase
+        .from('log_uploads')
+        .insert([
+          {
+            chunk_count: chunkCount,
+            total_bytes: totalBytes,
+            api_key_id: apiKey?.id || null
+          }
+        ])
+        .select('id, chunk_count, total_bytes');
+
+      if (error) throw error;
+      
+      res.status(201).json(data[0]);
+    } catch (error) {
+      console.error('Error starting log upload:', error);
+      res.status(500).json({ error: 'Failed to start log upload' });
+    }
+  });
+
+  // Upload one chunk of a log upload. Re-sending a chunk replaces it.
+  router.put('/log-uploads/:id/chunks/:index', agentApiKeyAuth(supabase, { required: requireApiKey }), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const index = Number(req.params.index);
+      const { data: chunk } = req.body;
+      
+      if (typeof chunk !== 'string' || chunk.length === 0) {
+        return res.status(400).json({ error: 'Missing chunk data' });
+      }
+      
+      const apiKey = res.locals.apiKey as AgentApiKey | undefined;
+      const { data: upload, error: fetchError } = await supabase
+        .from('log_uploads')
+        .select('chunk_count, api_key_id')
+        .eq('id', id)
+        .maybeSingle();
+        
+      if (fetchError) throw fetchError;
+      
+      if (!upload || upload.api_key_id !== (apiKey?.id || null)) {
+        return res.status(404).json({ error: 'Log upload not found' });
+      }
+      
+      if (!Number.isInteger(index) || index < 0 || index >= upload.chunk_count) {
+        return res.status(400).json({ error: 'Invalid chunk index' });
+      }
+      
+      const { error } = await supabase
+        .from('log_upload_chunks')
+        .upsert([{ upload_id: id, chunk_index: index, data: chunk }]);
+
+      if (error) throw error;
+      
+      res.status(200).json({ id, index });
+    } catch (error) {
+      console.error('Error uploading log chunk:', error);
+      res.status(500).json({ error: 'Failed to upload log chunk' });
+    }
+  });
+
   // Create a new bug report
-  router.post('/', async (req, res) => {
+  router.post('/', agentApiKeyAuth(supabase, { required: requireApiKey }), async (req, res) => {
     try {
-      const { agentName, input, logs, error, timestamp } = req.body;
+      const { input, error, trace, context, timestamp, logsSize, logsUploadId } = req.body;
+      const { runId, sessionId, spanId, parentSpanId } = req.body;
+      const apiKey = res.locals.apiKey as AgentApiKey | undefined;
+      let logs = req.body.logs;
+      
+      // Logs uploaded in chunks are referenced by upload ID instead
+      if (logsUploadId) {
+        const upload = await readLogUpload(logsUploadId, apiKey);
+        if (typeof upload !== 'string') {
+          return res.status(upload.status).json({ error: upload.error });
+        }
+        logs = upload;
+      }
+      
+      // A key is issued for one agent, so it can't report as another
+      if (apiKey && req.body.agentName && req.body.agentName !== apiKey.agent_name) {
+        return res.status(403).json({ error: 'API key is not valid for this agent' });
+      }
+      const agentName = apiKey ? apiKey.agent_name : req.body.agentName;
       
       // Validate required fields
       if (!agentName || !input || !logs) {
         return res.status(400).json({ error: 'Missing required fields' });
       }
       
-      // Generate a simple title based on the input or error
-      const title = error 
-        ? `Error: ${error.split('\n')[0].substring(0, 50)}` 
-        : `Issue with input: ${input.substring(0, 50)}`;
+      // The structured trace is optional, but must have a list of steps
+      if (trace !== undefined && (typeof trace !== 'object' || trace === null || !Array.isArray(trace.steps))) {
+        return res.status(400).json({ error: 'Invalid trace' });
+      }
       
-      // Create the bug report
-      const { data, error: insertError } = await supabase
-        .from('bugs')
+      if (context !== undefined && (typeof context !== 'object' || context === null || Array.isArray(context))) {
+        return res.status(400).json({ error: 'Invalid context' });
+      }
+      
+      const correlationIds = [runId, sessionId, spanId, parentSpanId];
+      if (correlationIds.some((value) => value !== undefined && (typeof value !== 'string' || value.length > MAX_CORRELATION_ID_LENGTH))) {
+        return res.status(400).json({ error: 'Invalid run or span ID' });
+      }
+      
+      // Use the client's fingerprint if it sent one, so custom grouping
+      // applies, otherwise compute the one the agent plugin would
+      if (req.body.fingerprint !== undefined && (typeof req.body.fingerprint !== 'string' || !req.body.fingerprint || req.body.fingerprint.length > MAX_FINGERPRINT_LENGTH)) {
+        return res.status(400).json({ error: 'Invalid fingerprint' });
+      }
+      const fingerprint = req.body.fingerprint || computeFingerprint(agentName, error, input);
+      const seenAt = timestamp || new Date().toISOString();
+      const logSize = typeof logsSize === 'number' ? logsSize : Buffer.byteLength(logs, 'utf-8');
+      
+      // A repeat of an open bug from the same agent is counted against it
+      // instead of creating a new bug
+      let existing = await findOpenBug(agentName, fingerprint);
+      
+      let bug;
+      if (!existing) {
+        // Generate a simple title based on the input or error
+        const title = error 
+          ? `Error: ${error.split('\n')[0].substring(0, 50)}` 
+          : `Issue with input: ${input.substring(0, 50)}`;
+        
+        // Create the bug report
+        const { data, error: insertError } = await supabase
+          .from('bugs')
+          .insert([
+            {
+              title,
+              agent_name: agentName,
+              input,
+              logs,
+              log_size: logSize,
+              error_message: error || null,
+              trace: trace || null,
+              context: context || null,
+              run_id: runId || null,
+              session_id: sessionId || null,
+              span_id: spanId || null,
+              parent_span_id: parentSpanId || null,
+              api_key_id: apiKey?.id || null,
+              reporter_id: apiKey?.owner_id || null,
+              fingerprint,
+              occurrence_count: 1,
+              first_seen: seenAt,
+              last_seen: seenAt,
+              status: 'open',
+              bounty: 5, // Default bounty amount
+              created_at: seenAt,
+              upvotes: 0
+            }
+          ])
+          .select();
+
+        // Only one open bug may have the fingerprint, so a concurrent first
+        // report that got there first is counted against instead
+        if (insertError?.code === UNIQUE_VIOLATION) {
+          existing = await findOpenBug(agentName, fingerprint);
+        }
+        if (!existing) {
+          if (insertError) throw insertError;
+          bug = data[0];
+        }
+      }
+      
+      if (existing) {
+        const { data, error: updateError } = await supabase
+          .rpc('record_bug_occurrence', { target_bug_id: existing.id, seen_at: seenAt });
+
+        if (updateError) throw updateError;
+        bug = data[0];
+      }
+      
+      const { error: occurrenceError } = await supabase
+        .from('bug_occurrences')
         .insert([
           {
-            title,
-            agent_name: agentName,
+            bug_id: bug.id,
             input,
-            logs,
             error_message: error || null,
-            status: 'open',
-            bounty: 5, // Default bounty amount
-            created_at: timestamp || new Date().toISOString(),
-            upvotes: 0
+            log_size: logSize,
+            run_id: runId || null,
+            session_id: sessionId || null,
+            span_id: spanId || null,
+            api_key_id: apiKey?.id || null,
+            occurred_at: seenAt
           }
-        ])
-        .select();
-
-      if (insertError) throw insertError;
+        ]);
+        
+      if (occurrenceError) console.error('Error recording bug occurrence:', occurrenceError);
       
-      res.status(201).json(data[0]);
+      if (logsUploadId) {
+        const { error: deleteError } = await supabase
+          .from('log_uploads')
+          .delete()
+          .eq('id', logsUploadId);
+        
+        if (deleteError) console.error('Error deleting log upload:', deleteError);
+      }
+      
+      // The token lets the reporter attach files to the bug
+      res.status(existing ? 200 : 201).json({ ...bug, attachment_token: createAttachmentToken(bug.id) });
     } catch (error) {
       console.error('Error creating bug report:', error);
       res.status(500).json({ error: 'Failed to create bug report' });
     }
   });
 
-  // Update bug status (mark as resolved)
-  router.patch('/:id/resolve', async (req, res) => {
+  // List a bug's uploaded attachments
+  router.get('/:id/attachments', async (req, res) => {
     try {
       const { id } = req.params;
-      const { fixUrl, explanation } = req.body;
+      const { data, error } = await supabase
+        .from('attachments')
+        .select('id, filename, filetype, filesize, created_at')
+        .eq('bug_id', id)
+        .not('uploaded_at', 'is', null)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
       
-      // Validate required fields
-      if (!fixUrl) {
-        return res.status(400).json({ error: 'Fix URL is required' });
+      res.status(200).json(data.map((attachment) => ({
+        ...attachment,
+        download_url: `/api/attachments/${attachment.id}`
+      })));
+    } catch (error) {
+      console.error('Error fetching attachments:', error);
+      res.status(500).json({ error: 'Failed to fetch attachments' });
+    }
+  });
+
+  // Request a presigned URL to upload an attachment. Requires the
+  // attachment token returned when the bug was created.
+  router.post('/:id/attachments', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { filename, contentType, size, token } = req.body;
+      
+      if (!verifyAttachmentToken(id, token)) {
+        return res.status(403).json({ error: 'Invalid attachment token' });
       }
       
-      const { data, error } = await supabase
+      if (typeof filename !== 'string' || !filename || typeof contentType !== 'string' || !Number.isInteger(size)) {
+        return res.status(400).json({ error: 'Missing required fields' });
+      }
+      
+      if (size < 1 || size > MAX_ATTACHMENT_BYTES) {
+        return res.status(413).json({ error: `Attachments must be between 1 byte and ${MAX_ATTACHMENT_BYTES} bytes` });
+      }
+      
+      const filetype = baseContentType(contentType);
+      if (!ALLOWED_ATTACHMENT_TYPES.includes(filetype)) {
+        return res.status(415).json({ error: `Attachment type ${filetype} is not allowed` });
+      }
+      
+      const { data: bugData, error: fetchError } = await supabase
         .from('bugs')
-        .update({
-          status: 'resolved',
-          fix_url: fixUrl,
-          fix_explanation: explanation,
-          resolved_at: new Date().toISOString()
-        })
+        .select('id, reporter_id')
         .eq('id', id)
-        .select();
+        .maybeSingle();
+        
+      if (fetchError) throw fetchError;
+      
+      if (!bugData) {
+        return res.status(404).json({ error: 'Bug not found' });
+      }
+      
+      const { count, error: countError } = await supabase
+        .from('attachments')
+        .select('id', { count: 'exact', head: true })
+        .eq('bug_id', id);
+        
+      if (countError) throw countError;
+      
+      if ((count || 0) >= MAX_ATTACHMENTS_PER_BUG) {
+        return res.status(400).json({ error: 'Too many attachments for this bug' });
+      }
+      
+      const attachmentId = crypto.randomUUID();
+      const { data, error } = await supabase
+        .from('attachments')
+        .insert([
+          {
+            id: attachmentId,
+            bug_id: id,
+            filename: sanitizeFilename(filename),
+            filepath: attachmentPath(id, attachmentId),
+            filetype,
+            filesize: size,
+            uploaded_by: bugData.reporter_id || null
+          }
+        ])
+        .select('id, filename, filetype, filesize');
 
       if (error) throw error;
       
-      if (!data || data.length === 0) {
+      res.status(201).json({ ...data[0], upload_url: createUploadUrl(attachmentId) });
+    } catch (error) {
+      console.error('Error creating attachment:', error);
+      res.status(500).json({ error: 'Failed to create attachment' });
+    }
+  });
+
+  // List the fixes submitted for a bug, oldest first
+  router.get('/:id/fixes', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { data, error } = await supabase
+        .from('fix_submissions')
+        .select(FIX_SUBMISSION_COLUMNS)
+        .eq('bug_id', id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      
+      res.status(200).json(data);
+    } catch (error) {
+      console.error('Error fetching fix submissions:', error);
+      res.status(500).json({ error: 'Failed to fetch fix submissions' });
+    }
+  });
+
+  // Submit a fix for review. The bug stays open until an admin accepts one.
+  const submitFix: express.RequestHandler = async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { explanation, submitter, email } = req.body;
+      const prUrl = req.body.prUrl || req.body.fixUrl;
+      
+      // Validate required fields
+      if (!prUrl) {
+        return res.status(400).json({ error: 'Fix URL is required' });
+      }
+      
+      if (!/^https?:\/\//i.test(prUrl)) {
+        return res.status(400).json({ error: 'Fix URL must be an http(s) URL' });
+      }
+      
+      const { data: bugData, error: fetchError } = await supabase
+        .from('bugs')
+        .select('status')
+        .eq('id', id)
+        .maybeSingle();
+        
+      if (fetchError) throw fetchError;
+      
+      if (!bugData) {
         return res.status(404).json({ error: 'Bug not found' });
       }
       
-      res.status(200).json(data[0]);
+      if (!OPEN_STATUSES.includes(bugData.status)) {
+        return res.status(409).json({ error: 'This bug is no longer accepting fixes' });
+      }
+      
+      const { data: duplicate, error: duplicateError } = await supabase
+        .from('fix_submissions')
+        .select('id')
+        .eq('bug_id', id)
+        .eq('pr_url', prUrl)
+        .neq('status', 'rejected')
+        .limit(1)
+        .maybeSingle();
+        
+      if (duplicateError) throw duplicateError;
+      
+      if (duplicate) {
+        return res.status(409).json({ error: 'This fix has already been submitted' });
+      }
+      
+      const { data, error } = await supabase
+        .from('fix_submissions')
+        .insert([
+          {
+            bug_id: id,
+            submitter_name: submitter || null,
+            submitter_email: email || null,
+            pr_url: prUrl,
+            explanation: explanation || null,
+            status: 'pending'
+          }
+        ])
+        .select(FIX_SUBMISSION_COLUMNS);
+
+      if (error) throw error;
+      
+      res.status(201).json(data[0]);
     } catch (error) {
-      console.error('Error resolving bug:', error);
-      res.status(500).json({ error: 'Failed to resolve bug' });
+      console.error('Error submitting fix:', error);
+      res.status(500).json({ error: 'Failed to submit fix' });
     }
-  });
+  };
+
+  router.post('/:id/fixes', submitFix);
+  
+  // Older clients mark bugs resolved here; it now submits a fix for review
+  router.patch('/:id/resolve', submitFix);
 
   // Upvote a bug
   router.post('/:id/upvote', async (req, res) => {
@@ -0,0 +1,83 @@
+import express from 'express';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { pullRequestKey, verifyGithubSignature } from '../github';
+
+export default function integrationRoutes(supabase: SupabaseClient) {
+  const router = express.Router();
+  
+  const githubWebhookSecret = process.env.GITHUB_WEBHOOK_SECRET;
+
+  // Receive GitHub webhook deliveries. A merged pull request accepts the
+  // pending fix submissions that link to it, resolving their bugs. The
+  // signature covers the raw body, so it is parsed here instead of by
+  // express.json.
+  router.post('/github/webhook', express.raw({ type: '*/*', limit: '5mb' }), async (req, res) => {
+    try {
+      if (!githubWebhookSecret) {
+        return res.status(503).json({ error: 'GitHub webhook is not configured' });
+      }
+      
+      const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      if (!verifyGithubSignature(githubWebhookSecret, body, req.headers['x-hub-signature-256'])) {
+        return res.status(401).json({ error: 'Invalid signature' });
+      }
+      
+      let payload;
+      try {
+        payload = JSON.parse(body.toString('utf-8'));
+      } catch {
+        return res.status(400).json({ error: 'Invalid JSON' });
+      }
+      
+      const event = req.headers['x-github-event'];
+      if (event === 'ping') {
+        return res.status(200).json({ status: 'ok' });
+      }
+      
+      const pullRequest = payload.pull_request;
+      if (event !== 'pull_request' || payload.action !== 'closed' || !pullRequest?.merged) {
+        return res.status(200).json({ status: 'ignored' });
+      }
+      
+      const key = typeof pullRequest.html_url === 'string' ? pullRequestKey(pullRequest.html_url) : null;
+      if (!key) {
+        return res.status(200).json({ status: 'ignored' });
+      }
+      
+      // Narrow by PR number in the database, then compare normalized URLs
+      const { data: candidates, error: fetchError } = await supabase
+        .from('fix_submissions')
+        .select('id, pr_url')
+        .eq('status', 'pending')
+        .ilike('pr_url', `%/pull/${pullRequest.number}%`);
+        
+      if (fetchError) throw fetchError;
+      
+      const mergedBy = pullRequest.merged_by?.login;
+      const note = `Merged on GitHub${mergedBy ? ` by ${mergedBy}` : ''}`;
+      const accepted: { id: string; bug_id: string }[] = [];
+      
+      for (const submission of (candidates || []).filter((candidate) => pullRequestKey(candidate.pr_url) === key)) {
+        const { data, error } = await supabase.rpc('accept_fix_submission', {
+          submission_id: submission.id,
+          reviewer_id: null,
+          note
+        });
+
+        if (error) throw error;
+        
+        // Empty when the bug already had an accepted fix
+        if (data && data.length > 0) {
+          accepted.push({ id: data[0].id, bug_id: data[0].bug_id });
+        }
+      }
+      
+      res.status(200).json({ status: 'processed', pullRequest: key, accepted });
+    } catch (error) {
+      console.error('Error handling GitHub webhook:', error);
+      res.status(500).json({ error: 'Failed to handle GitHub webhook' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,246 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AgentApiKey } from '@/lib/auth/types';
+
+export default function ApiKeysPage() {
+  const [keys, setKeys] = useState<AgentApiKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [agentName, setAgentName] = useState('');
+  const [ownerId, setOwnerId] = useState('');
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchKeys();
+  }, []);
+
+  const fetchKeys = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/admin/api-keys', { credentials: 'include' });
+      if (response.status === 403) throw new Error('You do not have permission to manage API keys');
+      if (!response.ok) throw new Error('Failed to fetch API keys');
+      setKeys(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load API keys');
+      console.error('Error fetching API keys:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIssuedKey(null);
+
+    try {
+      setIsIssuing(true);
+      const response = await fetch('/api/admin/api-keys', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name, agentName, ownerId: ownerId || undefined }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to issue API key');
+      }
+
+      const { key } = await response.json();
+      setIssuedKey(key);
+      setName('');
+      setAgentName('');
+      setOwnerId('');
+      fetchKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to issue API key');
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  const handleRevoke = async (key: AgentApiKey) => {
+    if (!window.confirm(`Revoke "${key.name}"? Agents using it will no longer be able to report bugs.`)) {
+      return;
+    }
+
+    try {
+      setRevokingId(key.id);
+      const response = await fetch(`/api/admin/api-keys/${key.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to revoke API key');
+      }
+
+      fetchKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke API key');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const formatDate = (dateString: string | null) =>
+    dateString ? new Date(dateString).toLocaleString() : 'Never';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Agent API Keys</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Keys agents use to submit bug reports. Pass one to the plugin as <code>apiKey</code>.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-400 p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {issuedKey && (
+        <div className="bg-green-50 border-l-4 border-green-400 p-4">
+          <p className="text-sm text-green-700">
+            Copy this key now, it will not be shown again:
+          </p>
+          <code className="mt-2 block break-all text-sm font-mono text-gray-900">{issuedKey}</code>
+        </div>
+      )}
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Issue a Key</h3>
+        </div>
+        <form onSubmit={handleIssue} className="px-4 py-5 sm:px-6 grid gap-4 sm:grid-cols-4 sm:items-end">
+          <div>
+            <label htmlFor="name" className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              id="name"
+              type="text"
+              required
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="CI agent"
+              className="mt-1 block w-full text-sm border-gray-300 rounded-md shadow-sm focus:border-primary-300 focus:ring focus:ring-primary-200 focus:ring-opacity-50"
+            />
+          </div>
+          <div>
+            <label htmlFor="agentName" className="block text-sm font-medium text-gray-700">Agent Name</label>
+            <input
+              id="agentName"
+              type="text"
+              required
+              value={agentName}
+              onChange={(e) => setAgentName(e.target.value)}
+              className="mt-1 block w-full text-sm border-gray-300 rounded-md shadow-sm focus:border-primary-300 focus:ring focus:ring-primary-200 focus:ring-opacity-50"
+            />
+          </div>
+          <div>
+            <label htmlFor="ownerId" className="block text-sm font-medium text-gray-700">Owner User ID</label>
+            <input
+              id="ownerId"
+              type="text"
+              value={ownerId}
+              onChange={(e) => setOwnerId(e.target.value)}
+              placeholder="Defaults to you"
+              className="mt-1 block w-full text-sm border-gray-300 rounded-md shadow-sm focus:border-primary-300 focus:ring focus:ring-primary-200 focus:ring-opacity-50"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isIssuing}
+            className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+          >
+            {isIssuing ? 'Issuing...' : 'Issue Key'}
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Keys</h3>
+        </div>
+        {isLoading ? (
+          <p className="px-6 py-4 text-sm text-gray-500">Loading...</p>
+        ) : keys.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-gray-500">No API keys have been issued yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Name
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Agent
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Key
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Created
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Last Used
+                  </th>
+                  <th scope="col" className="relative px-6 py-3">
+                    <span className="sr-only">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {keys.map((key) => (
+                  <tr key={key.id} className={key.revoked_at ? 'bg-gray-50 text-gray-400' : 'hover:bg-gray-50'}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {key.name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {key.agent_name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500">
+                      {key.key_prefix}...
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(key.created_at)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(key.last_used_at)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      {key.revoked_at ? (
+                        <span className="text-gray-400">Revoked {new Date(key.revoked_at).toLocaleDateString()}</span>
+                      ) : (
+                        <button
+                          onClick={() => handleRevoke(key)}
+                          disabled={revokingId === key.id}
+                          className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                        >
+                          {revokingId === key.id ? 'Revoking...' : 'Revoke'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { FixSubmission, FixSubmissionStatus } from '@/lib/auth/types';
+
+export default function FixSubmissionsPage() {
+  const [submissions, setSubmissions] = useState<FixSubmission[]>([]);
+  const [statusFilter, setStatusFilter] = useState<FixSubmissionStatus | 'all'>('pending');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSubmissions();
+  }, [statusFilter]);
+
+  const fetchSubmissions = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/admin/fix-submissions?status=${statusFilter}`, { credentials: 'include' });
+      if (response.status === 403) throw new Error('You do not have permission to review fixes');
+      if (!response.ok) throw new Error('Failed to fetch fix submissions');
+      setSubmissions(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load fix submissions');
+      console.error('Error fetching fix submissions:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReview = async (submission: FixSubmission, action: 'accept' | 'reject') => {
+    const prompt = action === 'accept'
+      ? `Accept this fix for "${submission.bug?.title}"? The bug will be resolved and become eligible for payout. Optional note:`
+      : 'Reason for rejecting this fix (optional):';
+    const note = window.prompt(prompt, '');
+    if (note === null) return;
+
+    try {
+      setReviewingId(submission.id);
+      const response = await fetch(`/api/admin/fix-submissions/${submission.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action, note: note || undefined }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Failed to ${action} fix`);
+      }
+
+      fetchSubmissions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} fix`);
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const getStatusBadgeClass = (status: FixSubmissionStatus) => {
+    switch (status) {
+      case 'accepted':
+        return 'bg-green-100 text-green-800';
+      case 'rejected':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-yellow-100 text-yellow-800';
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="sm:flex sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Fix Submissions</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Fixes submitted for bugs. Accepting one resolves the bug and makes it eligible for payout.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0">
+          <label htmlFor="status" className="sr-only">Filter by status</label>
+          <select
+            id="status"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as FixSubmissionStatus | 'all')}
+            className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm rounded-md"
+          >
+            <option value="pending">Pending</option>
+            <option value="accepted">Accepted</option>
+            <option value="rejected">Rejected</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-400 p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+        {isLoading ? (
+          <p className="px-6 py-4 text-sm text-gray-500">Loading...</p>
+        ) : submissions.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-gray-500">No fix submissions to show.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {submissions.map((submission) => (
+              <li key={submission.id} className="px-4 py-4 sm:px-6">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <Link href={`/bugs/${submission.bug_id}`} className="text-sm font-medium text-primary-600 hover:text-primary-900 truncate">
+                      {submission.bug?.title || submission.bug_id}
+                    </Link>
+                    <p className="mt-1 text-sm text-gray-500">
+                      {submission.submitter_name || 'Anonymous'}
+                      {submission.submitter_email && <> &lt;{submission.submitter_email}&gt;</>}
+                      {' '}· {new Date(submission.created_at).toLocaleString()}
+                      {submission.bug && <> · ${submission.bug.bounty} bounty</>}
+                    </p>
+                  </div>
+                  <div className="ml-4 flex-shrink-0 flex items-center space-x-3">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeClass(submission.status)}`}>
+                      {submission.status}
+                    </span>
+                    {submission.status === 'pending' && (
+                      <>
+                        <button
+                          onClick={() => handleReview(submission, 'accept')}
+                          disabled={reviewingId === submission.id}
+                          className="text-sm font-medium text-green-600 hover:text-green-900 disabled:opacity-50"
+                        >
+                          Accept
+                        </button>
+                        <button
+                          onClick={() => handleReview(submission, 'reject')}
+                          disabled={reviewingId === submission.id}
+                          className="text-sm font-medium text-red-600 hover:text-red-900 disabled:opacity-50"
+                        >
+                          Reject
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                <a
+                  href={submission.pr_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="mt-2 block text-sm text-primary-600 hover:text-primary-900 break-all"
+                >
+                  {submission.pr_url}
+                </a>
+                {submission.explanation && (
+                  <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap">{submission.explanation}</p>
+                )}
+                {submission.review_note && (
+                  <p className="mt-2 text-xs text-gray-500">Review note: {submission.review_note}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -247,6 +247,17 @@ export default function AdminDashboard() {
             Manage bugs, view statistics, and handle payouts
           </p>
         </div>
+        <div className="mt-4 md:mt-0 space-x-4">
+          <Link href="/admin/fix-submissions" className="text-sm font-medium text-primary-600 hover:text-primary-900">
+            Fix Submissions
+          </Link>
+          <Link href="/admin/payouts" className="text-sm font-medium text-primary-600 hover:text-primary-900">
+            Payouts
+          </Link>
+          <Link href="/admin/api-keys" className="text-sm font-medium text-primary-600 hover:text-primary-900">
+            Agent API Keys
+          </Link>
+        </div>
       </div>
 
       {error && (
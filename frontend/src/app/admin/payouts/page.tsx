@@ -0,0 +1,442 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Payout, PayoutStatus, PayoutTransition } from '@/lib/auth/types';
+
+type EligibleBug = {
+  id: string;
+  title: string;
+  agent_name: string;
+  bounty: number;
+  payout_status: PayoutStatus | null;
+};
+
+type PayoutForm = {
+  amount: string;
+  paymentMethod: string;
+  recipientInfo: string;
+  idempotencyKey: string;
+};
+
+type PayoutProviders = {
+  providers: string[];
+  default: string;
+};
+
+// Statuses that count as the bug's payout; failed and cancelled ones can be redone
+const ACTIVE_PAYOUT_STATUSES: PayoutStatus[] = ['pending', 'approved', 'paid'];
+
+export default function PayoutsPage() {
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [eligibleBugs, setEligibleBugs] = useState<EligibleBug[]>([]);
+  const [statusFilter, setStatusFilter] = useState<PayoutStatus | 'all'>('all');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [formBugId, setFormBugId] = useState<string | null>(null);
+  const [form, setForm] = useState<PayoutForm>({ amount: '', paymentMethod: '', recipientInfo: '', idempotencyKey: '' });
+  const [isCreating, setIsCreating] = useState(false);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [history, setHistory] = useState<PayoutTransition[]>([]);
+  const [payoutProviders, setPayoutProviders] = useState<PayoutProviders>({ providers: [], default: '' });
+
+  useEffect(() => {
+    fetchPayouts();
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchEligibleBugs();
+    fetchPayoutProviders();
+  }, []);
+
+  const fetchPayouts = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const query = statusFilter === 'all' ? '' : `?status=${statusFilter}`;
+      const response = await fetch(`/api/admin/payouts${query}`, { credentials: 'include' });
+      if (response.status === 403) throw new Error('You do not have permission to manage payouts');
+      if (!response.ok) throw new Error('Failed to fetch payouts');
+      setPayouts(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load payouts');
+      console.error('Error fetching payouts:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchEligibleBugs = async () => {
+    try {
+      const response = await fetch('/api/admin/bugs?payoutEligible=true&limit=100', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch bugs awaiting payout');
+      const bugs: EligibleBug[] = await response.json();
+      setEligibleBugs(bugs.filter((bug) => !bug.payout_status || !ACTIVE_PAYOUT_STATUSES.includes(bug.payout_status)));
+    } catch (err) {
+      console.error('Error fetching bugs awaiting payout:', err);
+    }
+  };
+
+  // The payment methods are the payout providers the backend is configured with
+  const fetchPayoutProviders = async () => {
+    try {
+      const response = await fetch('/api/admin/payout-providers', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch payout providers');
+      setPayoutProviders(await response.json());
+    } catch (err) {
+      console.error('Error fetching payout providers:', err);
+    }
+  };
+
+  const openForm = (bug: EligibleBug) => {
+    setFormBugId(bug.id);
+    // The key stays the same while the form is open, so a retried submit
+    // returns the payout created by the first one
+    setForm({
+      amount: String(bug.bounty),
+      paymentMethod: payoutProviders.default,
+      recipientInfo: '',
+      idempotencyKey: crypto.randomUUID(),
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formBugId) return;
+
+    try {
+      setIsCreating(true);
+      setError(null);
+
+      const response = await fetch('/api/admin/payouts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          bugId: formBugId,
+          amount: Number(form.amount),
+          paymentMethod: form.paymentMethod,
+          recipientInfo: { details: form.recipientInfo },
+          idempotencyKey: form.idempotencyKey,
+        }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to create payout');
+      }
+
+      setFormBugId(null);
+      fetchPayouts();
+      fetchEligibleBugs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create payout');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleTransition = async (payout: Payout, status: PayoutStatus) => {
+    let note: string | null = null;
+    if (status === 'failed') {
+      note = window.prompt('Why did this payout fail?', '');
+      if (note === null) return;
+    } else if (status === 'cancelled') {
+      note = window.prompt(`Cancel this $${payout.amount} payout? Optional reason:`, '');
+      if (note === null) return;
+    }
+
+    try {
+      setUpdatingId(payout.id);
+      setError(null);
+
+      const response = await fetch(`/api/admin/payouts/${payout.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status, note: note || undefined }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update payout');
+      }
+
+      fetchPayouts();
+      if (status === 'failed' || status === 'cancelled') fetchEligibleBugs();
+      if (historyId === payout.id) fetchHistory(payout.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update payout');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const fetchHistory = async (payoutId: string) => {
+    try {
+      const response = await fetch(`/api/admin/payouts/${payoutId}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch payout history');
+      const payout: Payout = await response.json();
+      setHistory(payout.transitions || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load payout history');
+    }
+  };
+
+  const toggleHistory = (payoutId: string) => {
+    if (historyId === payoutId) {
+      setHistoryId(null);
+      return;
+    }
+    setHistoryId(payoutId);
+    setHistory([]);
+    fetchHistory(payoutId);
+  };
+
+  const getStatusBadgeClass = (status: PayoutStatus) => {
+    switch (status) {
+      case 'paid':
+        return 'bg-green-100 text-green-800';
+      case 'approved':
+        return 'bg-blue-100 text-blue-800';
+      case 'failed':
+        return 'bg-red-100 text-red-800';
+      case 'cancelled':
+        return 'bg-gray-100 text-gray-800';
+      default:
+        return 'bg-yellow-100 text-yellow-800';
+    }
+  };
+
+  const actionClass = 'text-sm font-medium disabled:opacity-50';
+
+  return (
+    <div className="space-y-6">
+      <div className="sm:flex sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Payouts</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Bounty payouts for accepted fixes. Approved payouts are sent through their payment method&apos;s provider
+            and settled when it reports back; manual ones are marked paid by hand. Every status change is kept in the payout&apos;s history.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0">
+          <label htmlFor="status" className="sr-only">Filter by status</label>
+          <select
+            id="status"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as PayoutStatus | 'all')}
+            className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm rounded-md"
+          >
+            <option value="all">All</option>
+            <option value="pending">Pending</option>
+            <option value="approved">Approved</option>
+            <option value="paid">Paid</option>
+            <option value="failed">Failed</option>
+            <option value="cancelled">Cancelled</option>
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-400 p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {eligibleBugs.length > 0 && (
+        <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+          <div className="px-4 py-5 sm:px-6">
+            <h2 className="text-lg font-medium text-gray-900">Awaiting payout</h2>
+          </div>
+          <ul className="divide-y divide-gray-200 border-t border-gray-200">
+            {eligibleBugs.map((bug) => (
+              <li key={bug.id} className="px-4 py-4 sm:px-6">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <Link href={`/bugs/${bug.id}`} className="text-sm font-medium text-primary-600 hover:text-primary-900 truncate">
+                      {bug.title}
+                    </Link>
+                    <p className="mt-1 text-sm text-gray-500">
+                      {bug.agent_name} · ${bug.bounty} bounty
+                    </p>
+                  </div>
+                  {formBugId !== bug.id && (
+                    <button
+                      onClick={() => openForm(bug)}
+                      className="ml-4 text-sm font-medium text-primary-600 hover:text-primary-900"
+                    >
+                      Create payout
+                    </button>
+                  )}
+                </div>
+                {formBugId === bug.id && (
+                  <form onSubmit={handleCreate} className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-3">
+                    <div>
+                      <label htmlFor="amount" className="block text-sm font-medium text-gray-700">Amount ($)</label>
+                      <input
+                        type="number"
+                        id="amount"
+                        min="0.01"
+                        step="0.01"
+                        required
+                        value={form.amount}
+                        onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="paymentMethod" className="block text-sm font-medium text-gray-700">Payment method</label>
+                      <select
+                        id="paymentMethod"
+                        required
+                        value={form.paymentMethod}
+                        onChange={(e) => setForm({ ...form, paymentMethod: e.target.value })}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      >
+                        {payoutProviders.providers.map((provider) => (
+                          <option key={provider} value={provider}>{provider}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="recipientInfo" className="block text-sm font-medium text-gray-700">Recipient</label>
+                      <input
+                        type="text"
+                        id="recipientInfo"
+                        required
+                        placeholder="Account or email"
+                        value={form.recipientInfo}
+                        onChange={(e) => setForm({ ...form, recipientInfo: e.target.value })}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      />
+                    </div>
+                    <div className="sm:col-span-3 flex justify-end space-x-3">
+                      <button
+                        type="button"
+                        onClick={() => setFormBugId(null)}
+                        className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={isCreating}
+                        className="px-4 py-2 text-sm font-medium text-white bg-primary-600 border border-transparent rounded-md hover:bg-primary-700 disabled:opacity-50"
+                      >
+                        {isCreating ? 'Creating...' : 'Create payout'}
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+        {isLoading ? (
+          <p className="px-6 py-4 text-sm text-gray-500">Loading...</p>
+        ) : payouts.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-gray-500">No payouts to show.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {payouts.map((payout) => (
+              <li key={payout.id} className="px-4 py-4 sm:px-6">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <Link href={`/bugs/${payout.bug_id}`} className="text-sm font-medium text-primary-600 hover:text-primary-900 truncate">
+                      {payout.bug?.title || payout.bug_id}
+                    </Link>
+                    <p className="mt-1 text-sm text-gray-500">
+                      ${payout.amount} via {payout.payment_method}
+                      {' '}· {new Date(payout.created_at).toLocaleString()}
+                      {payout.paid_at && <> · paid {new Date(payout.paid_at).toLocaleString()}</>}
+                    </p>
+                    {payout.provider_reference && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        {payout.provider_reference}: {payout.provider_status}
+                        {payout.reconciled_at && <> · checked {new Date(payout.reconciled_at).toLocaleString()}</>}
+                      </p>
+                    )}
+                    {payout.failure_reason && (
+                      <p className="mt-1 text-xs text-red-600">Failed: {payout.failure_reason}</p>
+                    )}
+                  </div>
+                  <div className="ml-4 flex-shrink-0 flex items-center space-x-3">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeClass(payout.status)}`}>
+                      {payout.status}
+                    </span>
+                    {payout.status === 'pending' && (
+                      <button
+                        onClick={() => handleTransition(payout, 'approved')}
+                        disabled={updatingId === payout.id}
+                        className={`${actionClass} text-blue-600 hover:text-blue-900`}
+                      >
+                        Approve
+                      </button>
+                    )}
+                    {payout.status === 'approved' && (
+                      <>
+                        <button
+                          onClick={() => handleTransition(payout, 'paid')}
+                          disabled={updatingId === payout.id}
+                          className={`${actionClass} text-green-600 hover:text-green-900`}
+                        >
+                          Mark paid
+                        </button>
+                        <button
+                          onClick={() => handleTransition(payout, 'failed')}
+                          disabled={updatingId === payout.id}
+                          className={`${actionClass} text-red-600 hover:text-red-900`}
+                        >
+                          Mark failed
+                        </button>
+                      </>
+                    )}
+                    {(payout.status === 'pending' || payout.status === 'approved') && (
+                      <button
+                        onClick={() => handleTransition(payout, 'cancelled')}
+                        disabled={updatingId === payout.id}
+                        className={`${actionClass} text-gray-600 hover:text-gray-900`}
+                      >
+                        Cancel
+                      </button>
+                    )}
+                    <button
+                      onClick={() => toggleHistory(payout.id)}
+                      className={`${actionClass} text-primary-600 hover:text-primary-900`}
+                    >
+                      {historyId === payout.id ? 'Hide history' : 'History'}
+                    </button>
+                  </div>
+                </div>
+                {historyId === payout.id && (
+                  <ol className="mt-3 space-y-1 border-l-2 border-gray-200 pl-4">
+                    {history.map((transition) => (
+                      <li key={transition.id} className="text-xs text-gray-600">
+                        <span className="font-medium text-gray-900">
+                          {transition.from_status ? `${transition.from_status} → ${transition.to_status}` : `created as ${transition.to_status}`}
+                        </span>
+                        {' '}· {new Date(transition.created_at).toLocaleString()}
+                        {transition.actor && <> · {transition.actor}</>}
+                        {transition.note && <> · {transition.note}</>}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+
+// DELETE /api/admin/api-keys/[id] - Revoke an agent API key
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const supabase = createClient();
+
+    // Check if user is authenticated
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check if user has permission to manage API keys
+    const { data: hasPermission } = await supabase.rpc('has_permission', {
+      user_id: session.user.id,
+      permission_name: 'manage_api_keys'
+    });
+
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    // Keys are revoked rather than deleted so bugs keep their reporter
+    const { data: apiKey, error } = await supabase
+      .from('agent_api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('revoked_at', null)
+      .select('id, name, agent_name, owner_id, key_prefix, created_by, created_at, last_used_at, revoked_at')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key not found or already revoked' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(apiKey);
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { generateApiKey } from '@/lib/auth/api-keys';
+
+export const dynamic = 'force-dynamic';
+
+const API_KEY_COLUMNS = 'id, name, agent_name, owner_id, key_prefix, created_by, created_at, last_used_at, revoked_at';
+
+// GET /api/admin/api-keys - List agent API keys
+export async function GET() {
+  try {
+    const supabase = createClient();
+
+    // Check if user is authenticated
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check if user has permission to manage API keys
+    const { data: hasPermission } = await supabase.rpc('has_permission', {
+      user_id: session.user.id,
+      permission_name: 'manage_api_keys'
+    });
+
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    const { data: keys, error } = await supabase
+      .from('agent_api_keys')
+      .select(API_KEY_COLUMNS)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json(keys || []);
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch API keys' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/api-keys - Issue a new agent API key
+export async function POST(request: Request) {
+  try {
+    const { name, agentName, ownerId } = await request.json();
+
+    if (!name || !agentName) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createClient();
+
+    // Check if user is authenticated
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check if user has permission to manage API keys
+    const { data: hasPermission } = await supabase.rpc('has_permission', {
+      user_id: session.user.id,
+      permission_name: 'manage_api_keys'
+    });
+
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    const { key, prefix, hash } = generateApiKey();
+
+    const { data: apiKey, error } = await supabase
+      .from('agent_api_keys')
+      .insert({
+        name,
+        agent_name: agentName,
+        owner_id: ownerId || session.user.id,
+        key_prefix: prefix,
+        key_hash: hash,
+        created_by: session.user.id,
+      })
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    // The plain key is only ever returned here
+    return NextResponse.json({ ...apiKey, key }, { status: 201 });
+  } catch (error) {
+    console.error('Error issuing API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to issue API key' },
+      { status: 500 }
+    );
+  }
+}
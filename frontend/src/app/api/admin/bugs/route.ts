@@ -32,6 +32,11 @@ export async function GET(request: Request) {
       query = query.eq('status', status);
     }
 
+    // Bugs with an accepted fix, which can be paid out
+    if (searchParams.get('payoutEligible') === 'true') {
+      query = query.eq('payout_eligible', true);
+    }
+
     const { data: bugs, error } = await query;
 
     if (error) {
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+
+// PATCH /api/admin/fix-submissions/[id] - Accept or reject a fix submission
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const { action, note } = await request.json();
+
+    if (action !== 'accept' && action !== 'reject') {
+      return NextResponse.json(
+        { error: 'Action must be accept or reject' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createClient();
+
+    // Check if user is authenticated
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check if user has permission to review fixes
+    const { data: hasPermission } = await supabase.rpc('has_permission', {
+      user_id: session.user.id,
+      permission_name: 'review_fixes'
+    });
+
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    // Accepting resolves the bug and rejects its other pending fixes in
+    // one transaction
+    const { data, error } = action === 'accept'
+      ? await supabase.rpc('accept_fix_submission', {
+          submission_id: id,
+          reviewer_id: session.user.id,
+          note: note || null
+        })
+      : await supabase
+          .from('fix_submissions')
+          .update({
+            status: 'rejected',
+            reviewed_by: session.user.id,
+            reviewed_at: new Date().toISOString(),
+            review_note: note || null,
+          })
+          .eq('id', id)
+          .eq('status', 'pending')
+          .select();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json(
+        { error: action === 'accept'
+          ? 'Only pending fixes for bugs without an accepted fix can be accepted'
+          : 'Only pending fixes can be rejected' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(data[0]);
+  } catch (error) {
+    console.error('Error reviewing fix submission:', error);
+    return NextResponse.json(
+      { error: 'Failed to review fix submission' },
+      { status: 500 }
+    );
+  }
+}
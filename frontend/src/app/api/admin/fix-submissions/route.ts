@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { FixSubmissionStatus } from '@/lib/auth/types';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/fix-submissions - List fix submissions, pending ones by default
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = (searchParams.get('status') || 'pending') as FixSubmissionStatus | 'all';
+
+    const supabase = createClient();
+
+    // Check if user is authenticated
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check if user has permission to review fixes
+    const { data: hasPermission } = await supabase.rpc('has_permission', {
+      user_id: session.user.id,
+      permission_name: 'review_fixes'
+    });
+
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    let query = supabase
+      .from('fix_submissions')
+      .select('*, bug:bugs(id, title, agent_name, status, bounty)')
+      .order('created_at', { ascending: true });
+
+    if (status !== 'all') {
+      query = query.eq('status', status);
+    }
+
+    const { data: submissions, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json(submissions || []);
+  } catch (error) {
+    console.error('Error fetching fix submissions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch fix submissions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { backendAdminFetch, relayBackendResponse } from '@/lib/backend';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/payout-providers - List the payout providers the backend is configured with
+export async function GET() {
+  try {
+    const supabase = createClient();
+
+    // Check if user is authenticated
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check if user has permission to manage payouts
+    const { data: hasPermission } = await supabase.rpc('has_permission', {
+      user_id: session.user.id,
+      permission_name: 'manage_payouts'
+    });
+
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    return relayBackendResponse(await backendAdminFetch('/payout-providers'));
+  } catch (error) {
+    console.error('Error fetching payout providers:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch payout providers' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { PayoutStatus } from '@/lib/auth/types';
+import { backendAdminFetch, relayBackendResponse } from '@/lib/backend';
+
+const PAYOUT_STATUSES: PayoutStatus[] = ['pending', 'approved', 'paid', 'failed', 'cancelled'];
+
+// GET /api/admin/payouts/[id] - Get a payout with its ledger of transitions
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const supabase = createClient();
+
+    // Check if user is authenticated
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check if user has permission to manage payouts
+    const { data: hasPermission } = await supabase.rpc('has_permission', {
+      user_id: session.user.id,
+      permission_name: 'manage_payouts'
+    });
+
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    const { data: payout, error } = await supabase
+      .from('payouts')
+      .select('*, bug:bugs(id, title, agent_name, bounty), transitions:payout_transitions(*)')
+      .eq('id', id)
+      .order('created_at', { foreignTable: 'payout_transitions', ascending: true })
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!payout) {
+      return NextResponse.json(
+        { error: 'Payout not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(payout);
+  } catch (error) {
+    console.error('Error fetching payout:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch payout' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/admin/payouts/[id] - Move a payout to another status
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const { status, note } = await request.json();
+
+    if (!PAYOUT_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Status must be one of ${PAYOUT_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createClient();
+
+    // Check if user is authenticated
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check if user has permission to manage payouts
+    const { data: hasPermission } = await supabase.rpc('has_permission', {
+      user_id: session.user.id,
+      permission_name: 'manage_payouts'
+    });
+
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    // The backend cancels the transfer at the payout provider before the
+    // database checks the move is allowed and appends it to the ledger
+    const response = await backendAdminFetch(`/payouts/${id}/transitions`, {
+      method: 'POST',
+      body: JSON.stringify({ status, note: note || null })
+    }, { id: session.user.id, email: session.user.email });
+
+    return relayBackendResponse(response);
+  } catch (error) {
+    console.error('Error updating payout:', error);
+    return NextResponse.json(
+      { error: 'Failed to update payout' },
+      { status: 500 }
+    );
+  }
+}
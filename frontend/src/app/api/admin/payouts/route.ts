@@ -0,0 +1,124 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { PayoutStatus } from '@/lib/auth/types';
+import { backendAdminFetch, relayBackendResponse } from '@/lib/backend';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/payouts - List payouts with optional status filtering
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as PayoutStatus | null;
+
+    const supabase = createClient();
+
+    // Check if user is authenticated
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check if user has permission to manage payouts
+    const { data: hasPermission } = await supabase.rpc('has_permission', {
+      user_id: session.user.id,
+      permission_name: 'manage_payouts'
+    });
+
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    let query = supabase
+      .from('payouts')
+      .select('*, bug:bugs(id, title, agent_name, bounty)')
+      .order('created_at', { ascending: false });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data: payouts, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json(payouts || []);
+  } catch (error) {
+    console.error('Error fetching payouts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch payouts' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/payouts - Create a pending payout for a bug with an accepted fix
+export async function POST(request: Request) {
+  try {
+    const { bugId, amount, paymentMethod, recipientInfo, idempotencyKey, note } = await request.json();
+
+    if (!bugId || !paymentMethod || !recipientInfo) {
+      return NextResponse.json(
+        { error: 'Missing required payout fields' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof amount !== 'number' || !(amount > 0)) {
+      return NextResponse.json(
+        { error: 'Payout amount must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createClient();
+
+    // Check if user is authenticated
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Check if user has permission to manage payouts
+    const { data: hasPermission } = await supabase.rpc('has_permission', {
+      user_id: session.user.id,
+      permission_name: 'manage_payouts'
+    });
+
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    // The backend checks the payment method names one of its payout
+    // providers and creates the payout, its first ledger entry and the bug's
+    // payout status together; a repeated idempotency key returns the
+    // original payout
+    const response = await backendAdminFetch(`/bugs/${bugId}/payout`, {
+      method: 'POST',
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+      body: JSON.stringify({ amount, paymentMethod, recipientInfo, note: note || null })
+    }, { id: session.user.id, email: session.user.email });
+
+    return relayBackendResponse(response);
+  } catch (error) {
+    console.error('Error creating payout:', error);
+    return NextResponse.json(
+      { error: 'Failed to create payout' },
+      { status: 500 }
+    );
+  }
+}
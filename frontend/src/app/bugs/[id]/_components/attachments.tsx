@@ -0,0 +1,61 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { formatBytes } from '@/lib/utils';
+
+interface Attachment {
+  id: string;
+  filename: string;
+  filetype: string;
+  filesize: number;
+  download_url: string;
+}
+
+interface AttachmentsProps {
+  bugId: string;
+}
+
+/**
+ * Files uploaded with the report. Renders nothing when there are none.
+ */
+export function Attachments({ bugId }: AttachmentsProps) {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+
+  useEffect(() => {
+    const fetchAttachments = async () => {
+      try {
+        const response = await fetch(`/api/bugs/${bugId}/attachments`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch attachments');
+        }
+        setAttachments(await response.json());
+      } catch (err) {
+        console.error('Error fetching attachments:', err);
+      }
+    };
+
+    fetchAttachments();
+  }, [bugId]);
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="py-4 sm:py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+      <dt className="text-sm font-medium text-gray-500">Attachments</dt>
+      <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">
+        <ul className="divide-y divide-gray-200 rounded-md border border-gray-200">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="flex items-center justify-between px-3 py-2">
+              <a href={attachment.download_url} download className="text-primary-600 hover:text-primary-900 truncate">
+                {attachment.filename}
+              </a>
+              <span className="ml-4 flex-shrink-0 text-xs text-gray-500">
+                {attachment.filetype} · {formatBytes(attachment.filesize)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </dd>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface FixSubmission {
+  id: string;
+  submitter_name: string | null;
+  pr_url: string;
+  status: 'pending' | 'accepted' | 'rejected';
+  created_at: string;
+}
+
+interface FixSubmissionsProps {
+  bugId: string;
+  /** Change to refetch, e.g. after submitting a fix */
+  refreshKey?: number;
+}
+
+/**
+ * Fixes submitted for this bug and where each is in review. Renders
+ * nothing when there are none.
+ */
+export function FixSubmissions({ bugId, refreshKey }: FixSubmissionsProps) {
+  const [submissions, setSubmissions] = useState<FixSubmission[]>([]);
+
+  useEffect(() => {
+    const fetchSubmissions = async () => {
+      try {
+        const response = await fetch(`/api/bugs/${bugId}/fixes`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch fix submissions');
+        }
+        setSubmissions(await response.json());
+      } catch (err) {
+        console.error('Error fetching fix submissions:', err);
+      }
+    };
+
+    fetchSubmissions();
+  }, [bugId, refreshKey]);
+
+  if (submissions.length === 0) return null;
+
+  const statusClass = {
+    pending: 'bg-yellow-100 text-yellow-800',
+    accepted: 'bg-green-100 text-green-800',
+    rejected: 'bg-gray-100 text-gray-700',
+  };
+
+  return (
+    <div className="py-4 sm:py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+      <dt className="text-sm font-medium text-gray-500">Submitted fixes</dt>
+      <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">
+        <ul className="divide-y divide-gray-200 rounded-md border border-gray-200">
+          {submissions.map((submission) => (
+            <li key={submission.id} className="flex items-center justify-between px-3 py-2">
+              <a
+                href={submission.pr_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary-600 hover:text-primary-900 truncate"
+              >
+                {submission.pr_url}
+              </a>
+              <span className="ml-4 flex-shrink-0 text-xs text-gray-500">
+                <span className={`mr-2 rounded px-1.5 py-0.5 ${statusClass[submission.status]}`}>{submission.status}</span>
+                {submission.submitter_name || 'Anonymous'} · {new Date(submission.created_at).toLocaleDateString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </dd>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface Occurrence {
+  id: string;
+  input: string;
+  run_id?: string | null;
+  occurred_at: string;
+}
+
+interface OccurrencesProps {
+  bugId: string;
+  count: number;
+  firstSeen?: string | null;
+  lastSeen?: string | null;
+}
+
+/**
+ * How often this bug has been reported, with the most recent reports
+ */
+export function Occurrences({ bugId, count, firstSeen, lastSeen }: OccurrencesProps) {
+  const [occurrences, setOccurrences] = useState<Occurrence[]>([]);
+
+  useEffect(() => {
+    const fetchOccurrences = async () => {
+      try {
+        const response = await fetch(`/api/bugs/${bugId}/occurrences?limit=10`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch occurrences');
+        }
+        setOccurrences(await response.json());
+      } catch (err) {
+        console.error('Error fetching occurrences:', err);
+      }
+    };
+
+    fetchOccurrences();
+  }, [bugId, count]);
+
+  return (
+    <div className="py-4 sm:py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+      <dt className="text-sm font-medium text-gray-500">Occurrences</dt>
+      <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">
+        <p>
+          Reported {count} times
+          {firstSeen && lastSeen && (
+            <span className="text-gray-500">
+              {' '}between {new Date(firstSeen).toLocaleString()} and {new Date(lastSeen).toLocaleString()}
+            </span>
+          )}
+        </p>
+        {occurrences.length > 0 && (
+          <ul className="mt-2 divide-y divide-gray-200 rounded-md border border-gray-200">
+            {occurrences.map((occurrence) => (
+              <li key={occurrence.id} className="flex items-center justify-between px-3 py-2">
+                <span className="truncate">{occurrence.input.split('\n')[0]}</span>
+                <span className="ml-4 flex-shrink-0 text-xs text-gray-500">
+                  {occurrence.run_id && <span className="mr-2 font-mono">{occurrence.run_id.slice(0, 8)}</span>}
+                  {new Date(occurrence.occurred_at).toLocaleString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </dd>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+interface RunReport {
+  id: string;
+  title: string;
+  status: string;
+  created_at: string;
+  span_id?: string | null;
+  parent_span_id?: string | null;
+}
+
+interface RunReportsProps {
+  bugId: string;
+  runId: string;
+  spanId?: string | null;
+  parentSpanId?: string | null;
+}
+
+/**
+ * Other reports sent by the same agent run, oldest first. Renders nothing
+ * when this is the only one.
+ */
+export function RunReports({ bugId, runId, spanId, parentSpanId }: RunReportsProps) {
+  const [reports, setReports] = useState<RunReport[]>([]);
+
+  useEffect(() => {
+    const fetchReports = async () => {
+      try {
+        const response = await fetch(`/api/bugs?runId=${encodeURIComponent(runId)}`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch reports from this run');
+        }
+        const data: RunReport[] = await response.json();
+        setReports(
+          data
+            .filter((report) => report.id !== bugId)
+            .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        );
+      } catch (err) {
+        console.error('Error fetching reports from this run:', err);
+      }
+    };
+
+    fetchReports();
+  }, [bugId, runId]);
+
+  if (reports.length === 0) return null;
+
+  const relation = (report: RunReport) => {
+    if (parentSpanId && report.span_id === parentSpanId) return 'parent';
+    if (spanId && report.parent_span_id === spanId) return 'child';
+    return null;
+  };
+
+  return (
+    <div className="py-4 sm:py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+      <dt className="text-sm font-medium text-gray-500">Other reports from this run</dt>
+      <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">
+        <ul className="divide-y divide-gray-200 rounded-md border border-gray-200">
+          {reports.map((report) => (
+            <li key={report.id} className="flex items-center justify-between px-3 py-2">
+              <Link href={`/bugs/${report.id}`} className="text-primary-600 hover:text-primary-900 truncate">
+                {report.title}
+              </Link>
+              <span className="ml-4 flex-shrink-0 text-xs text-gray-500">
+                {relation(report) && (
+                  <span className="mr-2 rounded bg-gray-100 px-1.5 py-0.5 text-gray-700">{relation(report)}</span>
+                )}
+                {report.status.replace('_', ' ')} · {new Date(report.created_at).toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </dd>
+    </div>
+  );
+}
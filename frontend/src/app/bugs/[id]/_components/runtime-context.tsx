@@ -0,0 +1,58 @@
+import { RuntimeContext } from '@/lib/bugs/types';
+
+const KNOWN_KEYS = ['node', 'os', 'host', 'packages', 'model', 'git'];
+
+export function RuntimeContextDetails({ context }: { context: RuntimeContext }) {
+  const rows: [string, string][] = [];
+
+  if (context.host?.name) {
+    rows.push(['Application', `${context.host.name}${context.host.version ? ` ${context.host.version}` : ''}`]);
+  }
+  if (context.model) {
+    rows.push(['Model', `${context.model.name}${context.model.provider ? ` (${context.model.provider})` : ''}`]);
+  }
+  if (context.node) {
+    rows.push(['Node.js', context.node.version]);
+  }
+  if (context.os) {
+    rows.push(['OS', `${context.os.platform} ${context.os.release} (${context.os.arch})`]);
+  }
+  if (context.git) {
+    rows.push(['Git commit', context.git.commit]);
+  }
+
+  const packages = Object.entries(context.packages || {});
+  const extra = Object.entries(context).filter(([key]) => !KNOWN_KEYS.includes(key));
+
+  return (
+    <div className="space-y-3">
+      {rows.length > 0 && (
+        <dl className="grid grid-cols-1 gap-x-4 gap-y-2 sm:grid-cols-2">
+          {rows.map(([label, value]) => (
+            <div key={label}>
+              <dt className="text-xs font-medium text-gray-500">{label}</dt>
+              <dd className="text-sm text-gray-900 font-mono break-all">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+      {packages.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-gray-500">Packages</p>
+          <ul className="mt-1 flex flex-wrap gap-2">
+            {packages.map(([name, version]) => (
+              <li key={name} className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-mono bg-gray-100 text-gray-800">
+                {name}@{version}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {extra.length > 0 && (
+        <div className="bg-gray-50 p-3 rounded overflow-x-auto">
+          <pre className="text-xs"><code>{JSON.stringify(Object.fromEntries(extra), null, 2)}</code></pre>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { AgentTrace, TokenUsage, TraceStep } from '@/lib/bugs/types';
+
+const stepBadgeClass: Record<TraceStep['type'], string> = {
+  model: 'bg-indigo-100 text-indigo-800',
+  tool: 'bg-amber-100 text-amber-800',
+  output: 'bg-gray-100 text-gray-800',
+  error: 'bg-red-100 text-red-800',
+  log: 'bg-blue-100 text-blue-800',
+};
+
+const formatValue = (value: unknown) =>
+  typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+
+const formatUsage = (usage: TokenUsage) =>
+  [
+    usage.promptTokens !== undefined && `${usage.promptTokens} prompt`,
+    usage.completionTokens !== undefined && `${usage.completionTokens} completion`,
+    usage.totalTokens !== undefined && `${usage.totalTokens} total`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+function CodeBlock({ label, value }: { label: string; value: unknown }) {
+  if (value === undefined || value === null || value === '') return null;
+
+  return (
+    <div className="mt-2">
+      <p className="text-xs font-medium text-gray-500">{label}</p>
+      <div className="mt-1 bg-gray-900 text-gray-100 p-3 rounded-md overflow-x-auto">
+        <pre className="text-xs"><code>{formatValue(value)}</code></pre>
+      </div>
+    </div>
+  );
+}
+
+function TimelineStep({ step, isLast }: { step: TraceStep; isLast: boolean }) {
+  const [isOpen, setIsOpen] = useState(step.type === 'error');
+
+  return (
+    <li>
+      <div className="relative pb-6">
+        {!isLast && (
+          <span className="absolute top-4 left-4 -ml-px h-full w-0.5 bg-gray-200" aria-hidden="true" />
+        )}
+        <div className="relative flex space-x-3">
+          <div>
+            <span className="h-8 w-8 rounded-full bg-white border border-gray-300 flex items-center justify-center text-xs font-medium text-gray-600">
+              {step.index}
+            </span>
+          </div>
+          <div className="min-w-0 flex-1">
+            <button
+              type="button"
+              onClick={() => setIsOpen(!isOpen)}
+              className="flex w-full items-center justify-between text-left"
+            >
+              <div className="flex items-center space-x-2">
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${stepBadgeClass[step.type]}`}>
+                  {step.type}
+                </span>
+                {step.name && <span className="text-sm font-medium text-gray-900">{step.name}</span>}
+                {step.error && <span className="text-sm text-red-600 truncate">{step.error}</span>}
+              </div>
+              <div className="flex items-center space-x-3 text-xs text-gray-500 whitespace-nowrap">
+                {step.usage && <span>{formatUsage(step.usage)}</span>}
+                {step.durationMs !== undefined && <span>{step.durationMs}ms</span>}
+                <time dateTime={step.startedAt}>{new Date(step.startedAt).toLocaleTimeString()}</time>
+              </div>
+            </button>
+            {isOpen && (
+              <div className="mt-2">
+                <CodeBlock label="Input" value={step.input} />
+                {step.response && <CodeBlock label={`Response${step.response.model ? ` (${step.response.model})` : ''}`} value={step.response.content} />}
+                {step.toolCalls?.map((call, i) => (
+                  <div key={call.id || i} className="mt-2 border-l-2 border-amber-200 pl-3">
+                    <p className="text-xs font-medium text-gray-700">
+                      Tool call: {call.name}
+                      {call.durationMs !== undefined && <span className="ml-2 text-gray-500">{call.durationMs}ms</span>}
+                    </p>
+                    <CodeBlock label="Arguments" value={call.arguments} />
+                    <CodeBlock label="Result" value={call.result} />
+                    {call.error && <p className="mt-1 text-xs text-red-600">{call.error}</p>}
+                  </div>
+                ))}
+                {!step.toolCalls && <CodeBlock label="Output" value={step.output} />}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </li>
+  );
+}
+
+export function TraceTimeline({ trace }: { trace: AgentTrace }) {
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap gap-x-4 text-xs text-gray-500">
+        <span>{trace.steps.length} steps</span>
+        {trace.durationMs !== undefined && <span>{(trace.durationMs / 1000).toFixed(1)}s total</span>}
+        {trace.usage && <span>Tokens: {formatUsage(trace.usage)}</span>}
+        {trace.droppedSteps ? <span>{trace.droppedSteps} earlier steps not recorded</span> : null}
+      </div>
+      <ul className="-mb-6">
+        {trace.steps.map((step, i) => (
+          <TimelineStep key={step.index} step={step} isLast={i === trace.steps.length - 1} />
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -4,6 +4,14 @@ import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import ReactMarkdown from 'react-markdown';
+import { AgentTrace, RuntimeContext } from '@/lib/bugs/types';
+import { formatBytes } from '@/lib/utils';
+import { TraceTimeline } from './_components/trace-timeline';
+import { RuntimeContextDetails } from './_components/runtime-context';
+import { RunReports } from './_components/run-reports';
+import { Attachments } from './_components/attachments';
+import { Occurrences } from './_components/occurrences';
+import { FixSubmissions } from './_components/fix-submissions';
 
 interface Bug {
   id: string;
@@ -15,7 +23,16 @@ interface Bug {
   created_at: string;
   input: string;
   logs: string;
+  log_size?: number | null;
   error_message?: string;
+  trace?: AgentTrace | null;
+  context?: RuntimeContext | null;
+  run_id?: string | null;
+  occurrence_count?: number;
+  first_seen?: string | null;
+  last_seen?: string | null;
+  span_id?: string | null;
+  parent_span_id?: string | null;
   fix_url?: string;
   fix_explanation?: string;
   resolved_at?: string;
@@ -30,7 +47,10 @@ export default function BugDetail() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [fixUrl, setFixUrl] = useState('');
   const [explanation, setExplanation] = useState('');
+  const [submitter, setSubmitter] = useState('');
+  const [email, setEmail] = useState('');
   const [showFixForm, setShowFixForm] = useState(false);
+  const [fixesSubmitted, setFixesSubmitted] = useState(0);
   const [isAdmin, setIsAdmin] = useState(false);
 
   useEffect(() => {
@@ -74,23 +94,26 @@ export default function BugDetail() {
     setError(null);
 
     try {
-      const response = await fetch(`/api/bugs/${id}/resolve`, {
-        method: 'PATCH',
+      const response = await fetch(`/api/bugs/${id}/fixes`, {
+        method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          fixUrl,
+          prUrl: fixUrl,
           explanation,
+          submitter: submitter || undefined,
+          email: email || undefined,
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to submit fix');
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to submit fix');
       }
 
-      const data = await response.json();
-      setBug(data);
+      // The bug stays open until an admin accepts the fix
+      setFixesSubmitted((count) => count + 1);
       setShowFixForm(false);
       setFixUrl('');
       setExplanation('');
@@ -285,13 +308,55 @@ export default function BugDetail() {
               </div>
             )}
             <div className="py-4 sm:py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
-              <dt className="text-sm font-medium text-gray-500">Logs</dt>
+              <dt className="text-sm font-medium text-gray-500">
+                Logs
+                {bug.log_size ? (
+                  <span className="block text-xs font-normal text-gray-400">
+                    {formatBytes(bug.log_size)}
+                    {bug.log_size > new TextEncoder().encode(bug.logs).length && ', truncated by the agent'}
+                  </span>
+                ) : null}
+              </dt>
               <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">
                 <div className="bg-gray-900 text-gray-100 p-4 rounded-md overflow-x-auto">
                   <pre className="text-xs"><code>{bug.logs}</code></pre>
                 </div>
               </dd>
             </div>
+            {bug.context && Object.keys(bug.context).length > 0 && (
+              <div className="py-4 sm:py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+                <dt className="text-sm font-medium text-gray-500">Environment</dt>
+                <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">
+                  <RuntimeContextDetails context={bug.context} />
+                </dd>
+              </div>
+            )}
+            {bug.trace && bug.trace.steps.length > 0 && (
+              <div className="py-4 sm:py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+                <dt className="text-sm font-medium text-gray-500">Trace</dt>
+                <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">
+                  <TraceTimeline trace={bug.trace} />
+                </dd>
+              </div>
+            )}
+            {(bug.occurrence_count ?? 1) > 1 && (
+              <Occurrences
+                bugId={bug.id}
+                count={bug.occurrence_count ?? 1}
+                firstSeen={bug.first_seen}
+                lastSeen={bug.last_seen}
+              />
+            )}
+            {bug.run_id && (
+              <RunReports
+                bugId={bug.id}
+                runId={bug.run_id}
+                spanId={bug.span_id}
+                parentSpanId={bug.parent_span_id}
+              />
+            )}
+            <Attachments bugId={bug.id} />
+            <FixSubmissions bugId={bug.id} refreshKey={fixesSubmitted} />
           </dl>
         </div>
       </div>
@@ -332,7 +397,9 @@ export default function BugDetail() {
             <p className="mt-1 max-w-2xl text-sm text-gray-500">
               {showFixForm 
                 ? 'Provide a link to a GitHub PR or commit with the fix and a brief explanation.'
-                : 'Help the community by submitting a fix for this bug.'}
+                : fixesSubmitted > 0
+                  ? 'Thanks! Your fix has been submitted and will be reviewed by an admin.'
+                  : 'Help the community by submitting a fix for this bug.'}
             </p>
           </div>
           
@@ -380,6 +447,37 @@ export default function BugDetail() {
                   </div>
                 </div>
                 
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <label htmlFor="submitter" className="block text-sm font-medium text-gray-700">
+                      Your name or GitHub username
+                    </label>
+                    <div className="mt-1">
+                      <input
+                        type="text"
+                        id="submitter"
+                        className="shadow-sm focus:ring-primary-500 focus:border-primary-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                        value={submitter}
+                        onChange={(e) => setSubmitter(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                      Email (to arrange the bounty payout)
+                    </label>
+                    <div className="mt-1">
+                      <input
+                        type="email"
+                        id="email"
+                        className="shadow-sm focus:ring-primary-500 focus:border-primary-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                </div>
+                
                 <div>
                   <label htmlFor="explanation" className="block text-sm font-medium text-gray-700">
                     Explanation
@@ -14,6 +14,8 @@ interface Bug {
   upvotes: number;
   created_at: string;
   error_message?: string;
+  occurrence_count?: number;
+  last_seen?: string | null;
 }
 
 export default function Home() {
@@ -22,11 +24,12 @@ export default function Home() {
   const [error, setError] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [searchQuery, setSearchQuery] = useState('');
+  const [sortBy, setSortBy] = useState<'frequency' | 'newest'>('frequency');
 
   useEffect(() => {
     const fetchBugs = async () => {
       try {
-        const response = await fetch('/api/bugs');
+        const response = await fetch(sortBy === 'frequency' ? '/api/bugs?sort=frequency' : '/api/bugs');
         if (!response.ok) {
           throw new Error('Failed to fetch bugs');
         }
@@ -41,7 +44,7 @@ export default function Home() {
     };
 
     fetchBugs();
-  }, []);
+  }, [sortBy]);
 
   const filteredBugs = bugs.filter(bug => {
     const matchesStatus = statusFilter === 'all' || bug.status === statusFilter;
@@ -155,6 +158,19 @@ export default function Home() {
                 <option value="wont_fix">Won't Fix</option>
               </select>
             </div>
+            <div className="mt-3 sm:mt-0 sm:ml-4">
+              <label htmlFor="sort" className="sr-only">Sort by</label>
+              <select
+                id="sort"
+                name="sort"
+                className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm rounded-md"
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value as 'frequency' | 'newest')}
+              >
+                <option value="frequency">Most Frequent</option>
+                <option value="newest">Newest</option>
+              </select>
+            </div>
           </div>
         </div>
 
@@ -205,6 +221,11 @@ export default function Home() {
                       </span>
                     </div>
                     <div className="ml-2 flex-shrink-0 flex">
+                      {(bug.occurrence_count ?? 1) > 1 && (
+                        <p className="mr-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-orange-100 text-orange-800">
+                          {bug.occurrence_count} occurrences
+                        </p>
+                      )}
                       <p className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
                         ${bug.bounty} Bounty
                       </p>
@@ -225,6 +246,9 @@ export default function Home() {
                       </svg>
                       <p>
                         <time dateTime={bug.created_at}>{formatDate(bug.created_at)}</time>
+                        {bug.last_seen && (bug.occurrence_count ?? 1) > 1 && (
+                          <> · last seen <time dateTime={bug.last_seen}>{formatDate(bug.last_seen)}</time></>
+                        )}
                       </p>
                     </div>
                   </div>
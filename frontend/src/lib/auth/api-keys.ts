@@ -0,0 +1,23 @@
+import crypto from 'crypto';
+
+const KEY_PREFIX = 'bb_';
+
+/**
+ * Generate a new agent API key. Only the hash is stored; the key is shown
+ * to the admin once.
+ */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return {
+    key,
+    prefix: key.slice(0, 10),
+    hash: hashApiKey(key),
+  };
+}
+
+/**
+ * SHA-256 of the key, matching the backend's lookup
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
@@ -40,12 +40,90 @@ export type AuditLog = {
   };
 };
 
+export type AgentApiKey = {
+  id: string;
+  name: string;
+  agent_name: string;
+  owner_id: string | null;
+  key_prefix: string;
+  created_by: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+};
+
+export type FixSubmissionStatus = 'pending' | 'accepted' | 'rejected';
+
+export type FixSubmission = {
+  id: string;
+  bug_id: string;
+  submitter_name: string | null;
+  submitter_email: string | null;
+  pr_url: string;
+  explanation: string | null;
+  status: FixSubmissionStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+  bug?: {
+    id: string;
+    title: string;
+    agent_name: string;
+    status: string;
+    bounty: number;
+  };
+};
+
+export type PayoutStatus = 'pending' | 'approved' | 'paid' | 'failed' | 'cancelled';
+
+export type PayoutTransition = {
+  id: string;
+  payout_id: string;
+  from_status: PayoutStatus | null;
+  to_status: PayoutStatus;
+  admin_id: string | null;
+  actor: string | null;
+  note: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+};
+
+export type Payout = {
+  id: string;
+  bug_id: string;
+  fix_submission_id: string | null;
+  amount: number;
+  payment_method: string;
+  recipient_info: any;
+  status: PayoutStatus;
+  idempotency_key: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string | null;
+  paid_at: string | null;
+  failure_reason: string | null;
+  provider_reference: string | null;
+  provider_status: 'processing' | 'paid' | 'failed' | 'cancelled' | null;
+  reconciled_at: string | null;
+  bug?: {
+    id: string;
+    title: string;
+    agent_name: string;
+    bounty: number;
+  };
+  transitions?: PayoutTransition[];
+};
+
 export const PERMISSIONS = {
   MANAGE_USERS: 'manage_users',
   MANAGE_ROLES: 'manage_roles',
   MANAGE_BUGS: 'manage_bugs',
   VIEW_AUDIT_LOGS: 'view_audit_logs',
   EXPORT_DATA: 'export_data',
+  MANAGE_API_KEYS: 'manage_api_keys',
+  REVIEW_FIXES: 'review_fixes',
+  MANAGE_PAYOUTS: 'manage_payouts',
 } as const;
 
 export const ROLES = {
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+
+const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3001/api';
+
+/**
+ * The dashboard user an admin API call is made for. The backend records
+ * them in the payout ledger.
+ */
+export type BackendActor = {
+  id: string;
+  email?: string | null;
+};
+
+/**
+ * Call the backend's admin API with the admin credentials the server is
+ * configured with. Only use this from route handlers, after checking the
+ * user may make the call.
+ */
+export async function backendAdminFetch(
+  path: string,
+  init: RequestInit = {},
+  actor?: BackendActor
+): Promise<Response> {
+  const credentials = `${process.env.BACKEND_ADMIN_USERNAME || ''}:${process.env.BACKEND_ADMIN_PASSWORD || ''}`;
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Basic ${Buffer.from(credentials).toString('base64')}`);
+
+  if (init.body) {
+    headers.set('Content-Type', 'application/json');
+  }
+
+  if (actor) {
+    headers.set('X-Acting-User-Id', actor.id);
+    if (actor.email) {
+      headers.set('X-Acting-User-Email', actor.email);
+    }
+  }
+
+  return fetch(`${BACKEND_API_URL}/admin${path}`, {
+    ...init,
+    headers,
+    cache: 'no-store'
+  });
+}
+
+/**
+ * Pass a backend response on to the browser with its status
+ */
+export async function relayBackendResponse(response: Response): Promise<NextResponse> {
+  const body = await response.json().catch(() => ({ error: 'Unexpected response from the backend' }));
+  return NextResponse.json(body, { status: response.status });
+}
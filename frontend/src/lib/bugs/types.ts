@@ -0,0 +1,57 @@
+// Mirrors the trace model sent by the agent plugin (agent-plugin/src/trace.ts)
+
+export type TokenUsage = {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+};
+
+export type ToolCall = {
+  id?: string;
+  name: string;
+  arguments?: unknown;
+  result?: unknown;
+  error?: string;
+  durationMs?: number;
+};
+
+export type ModelResponse = {
+  model?: string;
+  content: string;
+  finishReason?: string;
+  usage?: TokenUsage;
+};
+
+export type TraceStep = {
+  index: number;
+  type: 'model' | 'tool' | 'output' | 'error' | 'log';
+  name?: string;
+  startedAt: string;
+  durationMs?: number;
+  input?: unknown;
+  output?: unknown;
+  response?: ModelResponse;
+  toolCalls?: ToolCall[];
+  usage?: TokenUsage;
+  error?: string;
+};
+
+export type AgentTrace = {
+  version: 1;
+  startedAt: string;
+  durationMs?: number;
+  usage?: TokenUsage;
+  steps: TraceStep[];
+  droppedSteps?: number;
+};
+
+// Mirrors RuntimeContext in agent-plugin/src/context.ts
+export type RuntimeContext = {
+  node?: { version: string };
+  os?: { platform: string; release: string; arch: string };
+  host?: { name?: string; version?: string };
+  packages?: Record<string, string>;
+  model?: { name: string; provider?: string };
+  git?: { commit: string };
+  [key: string]: unknown;
+};
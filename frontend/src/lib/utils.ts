@@ -1,3 +1,9 @@
 export function cn(...classes: (string | undefined)[]) {
   return classes.filter(Boolean).join(' ');
 }
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}